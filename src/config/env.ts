@@ -1,8 +1,24 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { UserRole } from '@/types';
 
 dotenv.config({ path: path.join(__dirname, '../../.env') });
 
+export type OAuthProviderName = 'google' | 'microsoft' | 'github' | 'oidc';
+
+export interface OAuthProviderConfig {
+    // A provider is only registered when its client ID and secret are set
+    enabled: boolean;
+    displayName: string;
+    clientId: string;
+    clientSecret: string;
+    callbackUrl: string;
+    authorizationUrl: string;
+    tokenUrl: string;
+    userInfoUrl: string;
+    scope: string[];
+}
+
 interface Config {
     nodeEnv: string;
     port: number;
@@ -23,11 +39,7 @@ interface Config {
         pass: string;
         from: string;
     };
-    google: {
-        clientId: string;
-        clientSecret: string;
-        callbackUrl: string;
-    };
+    oauth: Record<OAuthProviderName, OAuthProviderConfig>;
     cookie: {
         domain: string;
         secure: boolean;
@@ -43,12 +55,84 @@ interface Config {
     cors: {
         origin: string;
     };
+    twoFactor: {
+        issuer: string;
+        // Roles that must complete a second factor to sign in
+        requiredRoles: UserRole[];
+        encryptionKey: string;
+        challengeExpiry: string;
+    };
+    passwordless: {
+        magicLinkExpiryMinutes: number;
+        otpExpiryMinutes: number;
+        otpMaxAttempts: number;
+    };
+    loginSecurity: {
+        // Failed password attempts per account before each lockout step
+        maxFailedAttempts: number;
+        failureWindowMinutes: number;
+        // Lockout length for the 1st, 2nd, ... lockout; the last step repeats
+        lockoutMinutes: number[];
+        newLoginAlerts: boolean;
+    };
+    dataExport: {
+        // Local directory the export archives are written to
+        directory: string;
+        linkExpiryHours: number;
+        // Minimum time between two export requests from one user
+        cooldownHours: number;
+        // Pending or processing exports older than this are treated as failed
+        staleAfterHours: number;
+    };
+    voice: {
+        // Largest clip accepted by voice:send, after base64 decoding
+        maxAudioBytes: number;
+        allowedFormats: string[];
+        transcriptionTimeoutMs: number;
+        // Limits for a voice:start / voice:chunk / voice:end stream
+        maxStreamBytes: number;
+        maxStreamDurationMs: number;
+        streamIdleTimeoutMs: number;
+        // Minimum gap between interim transcriptions of a stream
+        partialIntervalMs: number;
+        // Spoken replies for sessions in voice mode
+        speechFormat: string;
+        speechDirectory: string;
+        speechChunkBytes: number;
+        synthesisTimeoutMs: number;
+    };
+    storage: {
+        // 'local' writes under localDirectory; 's3' talks to S3 or a compatible store such as MinIO
+        driver: 'local' | 's3';
+        localDirectory: string;
+        // HMAC key for local signed URLs
+        signingSecret: string;
+        signedUrlTtlSeconds: number;
+        s3: {
+            // Empty for AWS; e.g. http://localhost:9000 for MinIO
+            endpoint: string;
+            region: string;
+            bucket: string;
+            accessKeyId: string;
+            secretAccessKey: string;
+            forcePathStyle: boolean;
+        };
+    };
+    accountDeletion: {
+        // Days an account stays recoverable (by signing in) before it is purged
+        gracePeriodDays: number;
+        // When the purge job runs (Bull repeat cron)
+        purgeCron: string;
+    };
 }
 
+// Public base URL of this API; OAuth callback defaults are built from it
+const apiUrl = process.env.API_URL || 'http://localhost:8000';
+
 const config: Config = {
     nodeEnv: process.env.NODE_ENV || 'development',
     port: parseInt(process.env.PORT || '8000', 10),
-    apiUrl: process.env.API_URL || 'http://localhost:8000',
+    apiUrl,
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
     mongodbUri: process.env.MONGODB_URI || 'mongodb://localhost:27017/ai-tutor',
     jwt: {
@@ -57,10 +141,58 @@ const config: Config = {
         accessExpiry: process.env.JWT_ACCESS_EXPIRY || '15m',
         refreshExpiry: process.env.JWT_REFRESH_EXPIRY || '7d',
     },
-    google: {
-        clientId: process.env.GOOGLE_CLIENT_ID || '',
-        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
-        callbackUrl: process.env.GOOGLE_CALLBACK_URL || 'http://localhost:5000/api/auth/google/callback',
+    oauth: {
+        google: {
+            enabled: !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
+            displayName: 'Google',
+            clientId: process.env.GOOGLE_CLIENT_ID || '',
+            clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+            callbackUrl: process.env.GOOGLE_CALLBACK_URL || 'http://localhost:5000/api/auth/google/callback',
+            authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+            tokenUrl: 'https://oauth2.googleapis.com/token',
+            userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+            scope: ['profile', 'email'],
+        },
+        microsoft: {
+            enabled: !!(process.env.MICROSOFT_CLIENT_ID && process.env.MICROSOFT_CLIENT_SECRET),
+            displayName: 'Microsoft',
+            clientId: process.env.MICROSOFT_CLIENT_ID || '',
+            clientSecret: process.env.MICROSOFT_CLIENT_SECRET || '',
+            callbackUrl: process.env.MICROSOFT_CALLBACK_URL || `${apiUrl}/api/auth/oauth/microsoft/callback`,
+            // 'common' accepts any Azure AD tenant; set a tenant ID to restrict to one school
+            authorizationUrl: `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0/authorize`,
+            tokenUrl: `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0/token`,
+            userInfoUrl: 'https://graph.microsoft.com/oidc/userinfo',
+            scope: ['openid', 'profile', 'email'],
+        },
+        github: {
+            enabled: !!(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET),
+            displayName: 'GitHub',
+            clientId: process.env.GITHUB_CLIENT_ID || '',
+            clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+            callbackUrl: process.env.GITHUB_CALLBACK_URL || `${apiUrl}/api/auth/oauth/github/callback`,
+            authorizationUrl: 'https://github.com/login/oauth/authorize',
+            tokenUrl: 'https://github.com/login/oauth/access_token',
+            userInfoUrl: 'https://api.github.com/user',
+            scope: ['read:user', 'user:email'],
+        },
+        oidc: {
+            enabled: !!(
+                process.env.OIDC_CLIENT_ID &&
+                process.env.OIDC_CLIENT_SECRET &&
+                process.env.OIDC_AUTHORIZATION_URL &&
+                process.env.OIDC_TOKEN_URL &&
+                process.env.OIDC_USERINFO_URL
+            ),
+            displayName: process.env.OIDC_DISPLAY_NAME || 'Single Sign-On',
+            clientId: process.env.OIDC_CLIENT_ID || '',
+            clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+            callbackUrl: process.env.OIDC_CALLBACK_URL || `${apiUrl}/api/auth/oauth/oidc/callback`,
+            authorizationUrl: process.env.OIDC_AUTHORIZATION_URL || '',
+            tokenUrl: process.env.OIDC_TOKEN_URL || '',
+            userInfoUrl: process.env.OIDC_USERINFO_URL || '',
+            scope: (process.env.OIDC_SCOPE || 'openid profile email').split(' ').filter(Boolean),
+        },
     },
     mailer: {
         host: process.env.EMAIL_HOST || '',
@@ -85,6 +217,72 @@ const config: Config = {
     cors: {
         origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
     },
+    twoFactor: {
+        issuer: process.env.TWO_FACTOR_ISSUER || 'AI Tutor',
+        requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES || UserRole.ADMIN)
+            .split(',')
+            .map(role => role.trim())
+            .filter((role): role is UserRole => (Object.values(UserRole) as string[]).includes(role)),
+        encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_REFRESH_SECRET || 'your-2fa-secret',
+        challengeExpiry: process.env.TWO_FACTOR_CHALLENGE_EXPIRY || '5m',
+    },
+    passwordless: {
+        magicLinkExpiryMinutes: parseInt(process.env.MAGIC_LINK_EXPIRY_MINUTES || '15', 10),
+        otpExpiryMinutes: parseInt(process.env.LOGIN_OTP_EXPIRY_MINUTES || '10', 10),
+        otpMaxAttempts: parseInt(process.env.LOGIN_OTP_MAX_ATTEMPTS || '5', 10),
+    },
+    loginSecurity: {
+        maxFailedAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+        failureWindowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '60', 10),
+        lockoutMinutes: (process.env.LOGIN_LOCKOUT_MINUTES || '1,5,15,60')
+            .split(',')
+            .map(minutes => parseInt(minutes.trim(), 10))
+            .filter(minutes => minutes > 0),
+        newLoginAlerts: process.env.NEW_LOGIN_ALERTS !== 'false',
+    },
+    dataExport: {
+        directory: process.env.DATA_EXPORT_DIR || 'storage/exports',
+        linkExpiryHours: parseInt(process.env.DATA_EXPORT_LINK_EXPIRY_HOURS || '48', 10),
+        cooldownHours: parseInt(process.env.DATA_EXPORT_COOLDOWN_HOURS || '24', 10),
+        staleAfterHours: parseInt(process.env.DATA_EXPORT_STALE_HOURS || '2', 10),
+    },
+    voice: {
+        maxAudioBytes: parseInt(process.env.VOICE_MAX_AUDIO_BYTES || String(2 * 1024 * 1024), 10),
+        allowedFormats: (process.env.VOICE_ALLOWED_FORMATS || 'webm,ogg,wav,mp3,m4a')
+            .split(',')
+            .map(format => format.trim().toLowerCase())
+            .filter(Boolean),
+        transcriptionTimeoutMs: parseInt(process.env.VOICE_TRANSCRIPTION_TIMEOUT_MS || '60000', 10),
+        maxStreamBytes: parseInt(process.env.VOICE_MAX_STREAM_BYTES || String(10 * 1024 * 1024), 10),
+        maxStreamDurationMs: parseInt(process.env.VOICE_MAX_STREAM_DURATION_MS || '120000', 10),
+        streamIdleTimeoutMs: parseInt(process.env.VOICE_STREAM_IDLE_TIMEOUT_MS || '10000', 10),
+        partialIntervalMs: parseInt(process.env.VOICE_PARTIAL_INTERVAL_MS || '1500', 10),
+        speechFormat: (process.env.VOICE_SPEECH_FORMAT || 'mp3').toLowerCase(),
+        speechDirectory: process.env.VOICE_SPEECH_DIR || 'storage/speech',
+        speechChunkBytes: parseInt(process.env.VOICE_SPEECH_CHUNK_BYTES || String(32 * 1024), 10),
+        synthesisTimeoutMs: parseInt(process.env.VOICE_SYNTHESIS_TIMEOUT_MS || '60000', 10),
+    },
+    storage: {
+        driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+        localDirectory: process.env.STORAGE_LOCAL_DIR || 'storage/media',
+        signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_ACCESS_SECRET || 'your-access-secret',
+        signedUrlTtlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || '300', 10),
+        s3: {
+            endpoint: process.env.S3_ENDPOINT || '',
+            region: process.env.S3_REGION || 'us-east-1',
+            bucket: process.env.S3_BUCKET || 'ai-tutor-media',
+            accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+            // MinIO and most self-hosted stores need path-style URLs
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+                ? process.env.S3_FORCE_PATH_STYLE === 'true'
+                : !!process.env.S3_ENDPOINT,
+        },
+    },
+    accountDeletion: {
+        gracePeriodDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10),
+        purgeCron: process.env.ACCOUNT_PURGE_CRON || '0 * * * *',
+    },
 };
 
 const requiredEnvVars = [
@@ -93,10 +291,6 @@ const requiredEnvVars = [
     'MONGODB_URI',
 ];
 
-if (config.nodeEnv === 'production') {
-    requiredEnvVars.push('GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET');
-}
-
 for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
         console.error(`❌ Missing required environment variable: ${envVar}`);
@@ -0,0 +1,92 @@
+// src/config/oauthProviders.ts
+import axios from 'axios';
+import config, { OAuthProviderConfig, OAuthProviderName } from './env';
+import { OAuthProfile } from '@/types';
+
+export interface OAuthProviderDefinition extends OAuthProviderConfig {
+    name: OAuthProviderName;
+    fetchProfile(accessToken: string): Promise<OAuthProfile>;
+}
+
+const USER_AGENT = 'ai-tutor-platform';
+
+/**
+ * Standard OpenID Connect userinfo response (Google, Microsoft, any OIDC issuer)
+ */
+const fetchOidcProfile = (provider: OAuthProviderName, userInfoUrl: string) =>
+    async (accessToken: string): Promise<OAuthProfile> => {
+        const { data } = await axios.get(userInfoUrl, {
+            headers: { Authorization: `Bearer ${accessToken}` },
+            timeout: 10000,
+        });
+
+        return {
+            provider,
+            id: String(data.sub),
+            email: data.email?.toLowerCase(),
+            // Providers that don't assert verification (e.g. Azure AD) are treated as unverified
+            emailVerified: data.email_verified === true || data.email_verified === 'true',
+            name: data.name || data.preferred_username || data.email || 'User',
+            picture: data.picture,
+        };
+    };
+
+/**
+ * GitHub isn't OIDC: the email may be private, so read the verified primary address separately
+ */
+const fetchGitHubProfile = async (accessToken: string): Promise<OAuthProfile> => {
+    const headers = {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': USER_AGENT,
+    };
+
+    const [{ data: user }, { data: emails }] = await Promise.all([
+        axios.get(config.oauth.github.userInfoUrl, { headers, timeout: 10000 }),
+        axios.get<Array<{ email: string; primary: boolean; verified: boolean }>>(
+            'https://api.github.com/user/emails',
+            { headers, timeout: 10000 }
+        ),
+    ]);
+
+    const primary = emails.find(email => email.primary) || emails.find(email => email.verified);
+
+    return {
+        provider: 'github',
+        id: String(user.id),
+        email: primary?.email.toLowerCase(),
+        emailVerified: !!primary?.verified,
+        name: user.name || user.login,
+        picture: user.avatar_url,
+    };
+};
+
+const definitions: OAuthProviderDefinition[] = [
+    {
+        name: 'google',
+        ...config.oauth.google,
+        fetchProfile: fetchOidcProfile('google', config.oauth.google.userInfoUrl),
+    },
+    {
+        name: 'microsoft',
+        ...config.oauth.microsoft,
+        fetchProfile: fetchOidcProfile('microsoft', config.oauth.microsoft.userInfoUrl),
+    },
+    {
+        name: 'github',
+        ...config.oauth.github,
+        fetchProfile: fetchGitHubProfile,
+    },
+    {
+        name: 'oidc',
+        ...config.oauth.oidc,
+        fetchProfile: fetchOidcProfile('oidc', config.oauth.oidc.userInfoUrl),
+    },
+];
+
+export const oauthProviders: OAuthProviderDefinition[] = definitions.filter(provider => provider.enabled);
+
+export const getOAuthProvider = (name: string): OAuthProviderDefinition | undefined =>
+    oauthProviders.find(provider => provider.name === name);
+
+export default oauthProviders;
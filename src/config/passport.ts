@@ -1,65 +1,76 @@
+import { Request } from 'express';
 import passport from 'passport';
-import { Strategy as GoogleStrategy, Profile } from 'passport-google-oauth20';
-import config from './env';
-import User, { IUserDocument } from '@/models/User';
-import { UserRole } from '@/types';
+import { Strategy as OAuth2Strategy, InternalOAuthError, VerifyCallback } from 'passport-oauth2';
+import { oauthProviders, OAuthProviderDefinition } from './oauthProviders';
+import User from '@/models/User';
+import oauthService from '@/services/oauthService';
+import jwtService from '@/services/jwtService';
+import { OAuthProfile } from '@/types';
 
-passport.use(
-    new GoogleStrategy(
-        {
-            clientID: config.google.clientId,
-            clientSecret: config.google.clientSecret,
-            callbackURL: config.google.callbackUrl,
-            scope: ['profile', 'email'],
-        },
-        async (_accessToken, _refreshToken, profile: Profile, done) => {
-            try {
-                // Check if user already exists with this Google ID
-                let user: any = await User.findOne({ googleId: profile.id });
+/**
+ * One OAuth 2.0 strategy per configured provider; only the profile lookup differs
+ */
+class ProviderStrategy extends OAuth2Strategy {
+    private provider: OAuthProviderDefinition;
 
-                if (user) {
-                    // User exists, return user
-                    return done(null, user);
-                }
-
-                // Check if user exists with this email
-                const email = profile.emails?.[0]?.value;
-                if (!email) {
-                    return done(new Error('No email found in Google profile'), undefined);
-                }
-
-                const emailUser = await User.findByEmail(email) as IUserDocument | null;
+    constructor(provider: OAuthProviderDefinition) {
+        super(
+            {
+                authorizationURL: provider.authorizationUrl,
+                tokenURL: provider.tokenUrl,
+                clientID: provider.clientId,
+                clientSecret: provider.clientSecret,
+                callbackURL: provider.callbackUrl,
+                scope: provider.scope,
+                // CSRF protection for the redirect round-trip, kept in express-session
+                state: true,
+                passReqToCallback: true,
+            },
+            async (
+                req: Request,
+                _accessToken: string,
+                _refreshToken: string,
+                profile: OAuthProfile,
+                done: VerifyCallback
+            ) => {
+                try {
+                    // A confirmed link request started from account settings
+                    const linkToken = req.session?.oauthLinkToken;
+                    if (linkToken) {
+                        delete req.session.oauthLinkToken;
 
-                if (emailUser) {
-                    user = emailUser;
-                    user.googleId = profile.id;
-                    user.isEmailVerified = true;
+                        const intent = jwtService.verifyAccountLinkToken(linkToken);
+                        if (intent.provider !== profile.provider) {
+                            throw new Error('Link request does not match this provider');
+                        }
 
-                    if (profile.photos?.[0]?.value && !user.profileImage) {
-                        user.profileImage = profile.photos[0].value;
+                        const user = await oauthService.linkToUser(intent.userId, profile);
+                        return done(null, user, { linked: true });
                     }
 
-                    await user.save();
+                    const user = await oauthService.findOrCreateUser(profile);
                     return done(null, user);
+                } catch (error) {
+                    return done(error as Error, undefined);
                 }
+            }
+        );
 
-                // Create new user
-                const newUser = await User.create({
-                    email,
-                    name: profile.displayName,
-                    googleId: profile.id,
-                    role: UserRole.STUDENT,
-                    isEmailVerified: true,
-                    profileImage: profile.photos?.[0]?.value,
-                });
+        this.name = provider.name;
+        this.provider = provider;
+    }
 
-                return done(null, newUser);
-            } catch (error) {
-                return done(error as Error, undefined);
-            }
-        }
-    )
-);
+    userProfile(accessToken: string, done: (err?: Error | null, profile?: any) => void): void {
+        this.provider
+            .fetchProfile(accessToken)
+            .then(profile => done(null, profile))
+            .catch(error => done(new InternalOAuthError(`Failed to fetch ${this.provider.name} profile`, error)));
+    }
+}
+
+for (const provider of oauthProviders) {
+    passport.use(provider.name, new ProviderStrategy(provider));
+}
 
 // Serialize user for session
 passport.serializeUser((user: any, done) => {
@@ -76,4 +87,4 @@ passport.deserializeUser(async (id: string, done) => {
     }
 });
 
-export default passport;
\ No newline at end of file
+export default passport;
@@ -0,0 +1,80 @@
+// src/config/permissions.ts
+import { UserRole } from '@/types';
+
+export enum Permission {
+    SESSION_CREATE = 'session:create',
+    SESSION_READ = 'session:read',
+    SESSION_UPDATE = 'session:update',
+    SESSION_READ_ANY = 'session:read_any',
+
+    MESSAGE_SEND = 'message:send',
+    MESSAGE_READ = 'message:read',
+    MESSAGE_EDIT = 'message:edit',
+    MESSAGE_DELETE = 'message:delete',
+
+    VOICE_USE = 'voice:use',
+    CALL_START = 'call:start',
+
+    TEMPLATE_READ = 'template:read',
+    TEMPLATE_MANAGE = 'template:manage',
+    TEMPLATE_MANAGE_ANY = 'template:manage_any',
+
+    USER_MANAGE = 'user:manage',
+}
+
+const STUDENT_PERMISSIONS: Permission[] = [
+    Permission.SESSION_CREATE,
+    Permission.SESSION_READ,
+    Permission.SESSION_UPDATE,
+    Permission.MESSAGE_SEND,
+    Permission.MESSAGE_READ,
+    Permission.MESSAGE_EDIT,
+    Permission.MESSAGE_DELETE,
+    Permission.VOICE_USE,
+    Permission.CALL_START,
+    Permission.TEMPLATE_READ,
+];
+
+const TUTOR_PERMISSIONS: Permission[] = [
+    ...STUDENT_PERMISSIONS,
+    Permission.TEMPLATE_MANAGE,
+];
+
+// Single source of truth for what each role may do
+export const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+    [UserRole.STUDENT]: new Set(STUDENT_PERMISSIONS),
+    [UserRole.TUTOR]: new Set(TUTOR_PERMISSIONS),
+    [UserRole.ADMIN]: new Set(Object.values(Permission)),
+};
+
+// Socket events that need a permission beyond being connected
+export const SOCKET_EVENT_PERMISSIONS: Record<string, Permission> = {
+    'message:send': Permission.MESSAGE_SEND,
+    'message:regenerate': Permission.MESSAGE_SEND,
+    'message:cancel': Permission.MESSAGE_SEND,
+    'voice:send': Permission.VOICE_USE,
+    'voice:start': Permission.VOICE_USE,
+    'voice:chunk': Permission.VOICE_USE,
+    'voice:end': Permission.VOICE_USE,
+    'voice:cancel': Permission.VOICE_USE,
+    'session:create': Permission.SESSION_CREATE,
+    'session:join': Permission.SESSION_READ,
+    'session:end': Permission.SESSION_UPDATE,
+    'call:start': Permission.CALL_START,
+    'call:accept': Permission.CALL_START,
+    'call:reject': Permission.CALL_START,
+    'call:end': Permission.CALL_START,
+    'webrtc:offer': Permission.CALL_START,
+    'webrtc:answer': Permission.CALL_START,
+    'webrtc:ice-candidate': Permission.CALL_START,
+    'webrtc:hangup': Permission.CALL_START,
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean => {
+    if (!role) return false;
+    return ROLE_PERMISSIONS[role]?.has(permission) ?? false;
+};
+
+export const hasAllPermissions = (role: UserRole | undefined, permissions: Permission[]): boolean => {
+    return permissions.every(permission => hasPermission(role, permission));
+};
@@ -1,5 +1,7 @@
 
 // src/config/webrtc.ts
+import crypto from 'crypto';
+
 export interface ICEServerConfig {
     urls: string | string[];
     username?: string;
@@ -13,12 +15,31 @@ export interface WebRTCConfig {
     rtcpMuxPolicy: 'negotiate' | 'require';
 }
 
+const splitUrls = (value: string | undefined): string[] =>
+    (value || '').split(',').map(url => url.trim()).filter(Boolean);
+
+const stunUrls = splitUrls(process.env.STUN_SERVER_URLS);
+const turnUrls = splitUrls(process.env.TURN_SERVER_URL);
+
+// Call setup and TURN credentials
+export const callConfig = {
+    // Unanswered calls are marked missed after this long
+    ringTimeoutMs: parseInt(process.env.CALL_RING_TIMEOUT_MS || '30000', 10),
+    // Connected calls still open after this long are assumed abandoned and ended
+    maxDurationMs: parseInt(process.env.CALL_MAX_DURATION_MS || String(4 * 60 * 60 * 1000), 10),
+    // How often the maintenance queue closes stale calls
+    sweepCron: process.env.CALL_SWEEP_CRON || '*/5 * * * *',
+    // With a shared secret (coturn `use-auth-secret`), each user gets short-lived TURN credentials
+    turnSharedSecret: process.env.TURN_SHARED_SECRET || '',
+    turnCredentialTtlSeconds: parseInt(process.env.TURN_CREDENTIAL_TTL_SECONDS || '86400', 10)
+};
+
 // WebRTC configuration with STUN/TURN servers
 export const webrtcConfig: WebRTCConfig = {
     iceServers: [
-        // Google's public STUN servers
         {
-            urls: [
+            urls: stunUrls.length > 0 ? stunUrls : [
+                // Google's public STUN servers
                 'stun:stun.l.google.com:19302',
                 'stun:stun1.l.google.com:19302',
                 'stun:stun2.l.google.com:19302',
@@ -26,19 +47,42 @@ export const webrtcConfig: WebRTCConfig = {
                 'stun:stun4.l.google.com:19302'
             ]
         },
-        // Add your TURN server here for production
         // TURN servers are needed for NAT traversal when STUN fails
-        ...(process.env.TURN_SERVER_URL ? [{
-            urls: process.env.TURN_SERVER_URL,
+        ...(turnUrls.length > 0 && !callConfig.turnSharedSecret ? [{
+            urls: turnUrls,
             username: process.env.TURN_USERNAME || '',
             credential: process.env.TURN_CREDENTIAL || ''
         }] : [])
     ],
-    iceTransportPolicy: 'all',
+    // 'relay' forces all media through TURN, hiding client IP addresses from each other
+    iceTransportPolicy: process.env.WEBRTC_ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all',
     bundlePolicy: 'max-bundle',
     rtcpMuxPolicy: 'require'
 };
 
+/**
+ * RTCPeerConnection configuration for one user. With TURN_SHARED_SECRET set,
+ * TURN credentials follow the TURN REST API scheme: the username carries an
+ * expiry and the password is an HMAC of it, so nothing is stored server-side.
+ */
+export const getWebRTCConfig = (userId: string): WebRTCConfig => {
+    if (turnUrls.length === 0 || !callConfig.turnSharedSecret) {
+        return webrtcConfig;
+    }
+
+    const expiresAt = Math.floor(Date.now() / 1000) + callConfig.turnCredentialTtlSeconds;
+    const username = `${expiresAt}:${userId}`;
+    const credential = crypto
+        .createHmac('sha1', callConfig.turnSharedSecret)
+        .update(username)
+        .digest('base64');
+
+    return {
+        ...webrtcConfig,
+        iceServers: [...webrtcConfig.iceServers, { urls: turnUrls, username, credential }]
+    };
+};
+
 // Audio constraints for voice chat
 export const audioConstraints = {
     audio: {
@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import User, { IUserDocument } from '@/models/User';
+import jwtService from '@/services/jwtService';
+import apiResponse from '@/utils/apiResponse';
+import { AuthRequest, UserRole } from '@/types';
+import { asyncHandler } from '@/middlewares/errorMiddleware';
+import { SocketManager } from '@/services/socket/SocketManager';
+import logger from '@/config/logger';
+import auditService from '@/services/auditService';
+import { AuditAction, AuditOutcome } from '@/models/AuditLog';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toAdminUser = (user: IUserDocument) => ({
+    id: user._id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    isActive: user.isActive,
+    isEmailVerified: user.isEmailVerified,
+    deactivatedAt: user.deactivatedAt,
+    deactivationReason: user.deactivationReason,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+});
+
+class AdminController {
+    listUsers = asyncHandler(async (req: Request, res: Response) => {
+        const { search, role, isActive, page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+
+        const query: Record<string, any> = {};
+
+        if (search) {
+            const pattern = new RegExp(escapeRegex(search), 'i');
+            query.$or = [{ email: pattern }, { name: pattern }];
+        }
+
+        if (role) {
+            query.role = role;
+        }
+
+        if (isActive !== undefined) {
+            query.isActive = isActive === 'true';
+        }
+
+        const pageNum = Math.max(1, Number(page));
+        const limitNum = Math.min(100, Math.max(1, Number(limit)));
+
+        const [users, total] = await Promise.all([
+            User.find(query)
+                .sort({ createdAt: -1 })
+                .skip((pageNum - 1) * limitNum)
+                .limit(limitNum),
+            User.countDocuments(query),
+        ]);
+
+        apiResponse.success(res, 'Users retrieved successfully', {
+            users: users.map(toAdminUser),
+            pagination: {
+                total,
+                page: pageNum,
+                limit: limitNum,
+                pages: Math.ceil(total / limitNum),
+            },
+        });
+    });
+
+    getUser = asyncHandler(async (req: Request, res: Response) => {
+        const user = await User.findById(req.params.userId);
+
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        const sessions = await jwtService.getUserSessions(String(user._id));
+
+        apiResponse.success(res, 'User retrieved successfully', {
+            user: toAdminUser(user),
+            activeSessions: sessions.length,
+        });
+    });
+
+    updateRole = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { userId } = req.params;
+        const role = req.body.role as UserRole;
+
+        if (userId === req.user?.userId) {
+            return apiResponse.badRequest(res, 'You cannot change your own role');
+        }
+
+        const user = await User.findById(userId);
+
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        const previousRole = user.role;
+        user.role = role;
+        await user.save();
+
+        // Existing access tokens still carry the old role
+        await jwtService.revokeAllUserTokens(userId);
+        await this.disconnectSockets(req, userId, 'Your role has changed. Please sign in again.');
+
+        logger.info(`User ${userId} role changed from ${previousRole} to ${role} by ${req.user?.userId}`);
+        await auditService.recordRequest(req, AuditAction.ROLE_CHANGE, {
+            targetUserId: userId,
+            targetType: 'user',
+            targetId: userId,
+            metadata: { from: previousRole, to: role },
+        });
+
+        apiResponse.success(res, 'User role updated successfully', {
+            user: toAdminUser(user),
+        });
+    });
+
+    deactivateUser = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { userId } = req.params;
+
+        if (userId === req.user?.userId) {
+            return apiResponse.badRequest(res, 'You cannot deactivate your own account');
+        }
+
+        const user = await User.findById(userId);
+
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        if (!user.isActive) {
+            return apiResponse.conflict(res, 'User is already deactivated');
+        }
+
+        user.isActive = false;
+        user.deactivatedAt = new Date();
+        user.deactivationReason = req.body?.reason;
+        await user.save();
+
+        await jwtService.revokeAllUserTokens(userId);
+        const disconnected = await this.disconnectSockets(req, userId, 'Your account has been deactivated.');
+
+        logger.info(`User ${userId} deactivated by ${req.user?.userId}`);
+        await auditService.recordRequest(req, AuditAction.USER_DEACTIVATE, {
+            targetUserId: userId,
+            targetType: 'user',
+            targetId: userId,
+            metadata: { reason: user.deactivationReason },
+        });
+
+        apiResponse.success(res, 'User deactivated successfully', {
+            user: toAdminUser(user),
+            disconnectedSockets: disconnected,
+        });
+    });
+
+    reactivateUser = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { userId } = req.params;
+
+        const user = await User.findById(userId);
+
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        if (user.isActive) {
+            return apiResponse.conflict(res, 'User is already active');
+        }
+
+        user.isActive = true;
+        user.deactivatedAt = undefined;
+        user.deactivationReason = undefined;
+        await user.save();
+
+        logger.info(`User ${userId} reactivated by ${req.user?.userId}`);
+        await auditService.recordRequest(req, AuditAction.USER_REACTIVATE, {
+            targetUserId: userId,
+            targetType: 'user',
+            targetId: userId,
+        });
+
+        apiResponse.success(res, 'User reactivated successfully', {
+            user: toAdminUser(user),
+        });
+    });
+
+    forceLogout = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { userId } = req.params;
+
+        const user = await User.findById(userId);
+
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        await jwtService.revokeAllUserTokens(userId);
+        const disconnected = await this.disconnectSockets(req, userId, 'You have been signed out by an administrator.');
+
+        logger.info(`User ${userId} force-logged out by ${req.user?.userId}`);
+        await auditService.recordRequest(req, AuditAction.USER_FORCE_LOGOUT, {
+            targetUserId: userId,
+            targetType: 'user',
+            targetId: userId,
+        });
+
+        apiResponse.success(res, 'User logged out from all devices', {
+            disconnectedSockets: disconnected,
+        });
+    });
+
+    listAuditLogs = asyncHandler(async (req: Request, res: Response) => {
+        const { actorId, targetUserId, action, outcome, from, to, page = '1', limit = '50' } =
+            req.query as Record<string, string | undefined>;
+
+        const pageNum = Math.max(1, Number(page));
+        const limitNum = Math.min(200, Math.max(1, Number(limit)));
+
+        const { entries, total } = await auditService.list({
+            actorId,
+            targetUserId,
+            action: action as AuditAction | undefined,
+            outcome: outcome as AuditOutcome | undefined,
+            from: from ? new Date(from) : undefined,
+            to: to ? new Date(to) : undefined,
+            page: pageNum,
+            limit: limitNum,
+        });
+
+        apiResponse.success(res, 'Audit log retrieved successfully', {
+            entries,
+            pagination: {
+                total,
+                page: pageNum,
+                limit: limitNum,
+                pages: Math.ceil(total / limitNum),
+            },
+        });
+    });
+
+    private async disconnectSockets(req: Request, userId: string, reason: string): Promise<number> {
+        const socketManager = req.app.locals.socketManager as SocketManager | undefined;
+
+        if (!socketManager) {
+            return 0;
+        }
+
+        return socketManager.disconnectUser(userId, reason);
+    }
+}
+
+export default new AdminController();
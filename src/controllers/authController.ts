@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import User from '@/models/User';
+import User, { IUserDocument } from '@/models/User';
 import jwtService from '@/services/jwtService';
 import { sendVerificationEmail, sendPasswordResetEmail } from '@/services/mailerService';
 import cookieHelper, { COOKIE_NAMES } from '@/utils/cookieHelper';
@@ -8,6 +8,17 @@ import { AuthRequest, UserRole } from '@/types';
 import crypto from 'crypto';
 import { asyncHandler } from '@/middlewares/errorMiddleware';
 import mongoose from 'mongoose';
+import { getClientLocation } from '@/utils/deviceInfo';
+import { SocketManager } from '@/services/socket/SocketManager';
+import twoFactorService from '@/services/twoFactorService';
+import passwordlessService from '@/services/passwordlessService';
+import loginSecurityService from '@/services/loginSecurityService';
+import auditService from '@/services/auditService';
+import { AuditAction } from '@/models/AuditLog';
+import dataExportService from '@/services/dataExportService';
+import MessageQueue from '@/services/queue/MessageQueue';
+import credentialService from '@/services/credentialService';
+import accountDeletionService from '@/services/accountDeletionService';
 
 class AuthController {
     signup = asyncHandler(async (req: Request, res: Response) => {
@@ -52,7 +63,8 @@ class AuthController {
             user.email,
             user.role,
             deviceInfo,
-            ipAddress
+            ipAddress,
+            getClientLocation(req)
         );
 
         // Set cookies
@@ -72,34 +84,316 @@ class AuthController {
     login = asyncHandler(async (req: Request, res: Response) => {
         const { email, password } = req.body;
 
+        // Per-account lockout; authRateLimiter only sees one IP at a time
+        const lockedFor = await loginSecurityService.getLockout(email);
+        if (lockedFor > 0) {
+            return this.rejectLocked(res, lockedFor);
+        }
+
         const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
 
         if (!user) {
+            const lockout = await loginSecurityService.recordFailure(email, req.ip || 'Unknown IP');
+            await auditService.recordRequest(req, AuditAction.LOGIN_FAILED, {
+                outcome: 'failure',
+                actor: { email },
+                metadata: { reason: 'unknown_email', lockoutSeconds: lockout || undefined },
+            });
             return apiResponse.unauthorized(res, 'Invalid email or password');
         }
 
         if (!user.password) {
-            return apiResponse.badRequest(res, 'Please login with Google');
+            return apiResponse.badRequest(res, 'This account signs in with an external provider');
         }
 
         // Verify password
         const isPasswordValid = await user.comparePassword(password);
         if (!isPasswordValid) {
+            const lockout = await loginSecurityService.recordFailure(email, req.ip || 'Unknown IP');
+            await auditService.recordRequest(req, AuditAction.LOGIN_FAILED, {
+                outcome: 'failure',
+                actor: { userId: String(user._id), email: user.email, role: user.role },
+                metadata: { reason: 'invalid_password', lockoutSeconds: lockout || undefined },
+            });
+            if (lockout > 0) {
+                return this.rejectLocked(res, lockout);
+            }
             return apiResponse.unauthorized(res, 'Invalid email or password');
         }
 
-        // Generate tokens
+        await loginSecurityService.clearFailures(email);
+
+        if (!user.isActive) {
+            return apiResponse.forbidden(res, 'Account is deactivated');
+        }
+
+        await this.finishFirstFactor(req, res, user);
+    });
+
+    // ========================================
+    // Passwordless login
+    // ========================================
+    requestMagicLink = asyncHandler(async (req: Request, res: Response) => {
+        try {
+            await passwordlessService.sendMagicLink(req.body.email);
+        } catch (err) {
+            console.error('Error sending magic link email:', err);
+        }
+
+        // Same answer whether or not the account exists
+        apiResponse.success(res, 'If an account exists for this email, a sign-in link has been sent');
+    });
+
+    verifyMagicLink = asyncHandler(async (req: Request, res: Response) => {
+        const user = await passwordlessService.redeemMagicLink(req.body.token);
+        if (!user) {
+            return apiResponse.unauthorized(res, 'Invalid or expired sign-in link');
+        }
+
+        await this.finishFirstFactor(req, res, user);
+    });
+
+    requestLoginCode = asyncHandler(async (req: Request, res: Response) => {
+        try {
+            await passwordlessService.sendLoginCode(req.body.email);
+        } catch (err) {
+            console.error('Error sending login code email:', err);
+        }
+
+        apiResponse.success(res, 'If an account exists for this email, a sign-in code has been sent');
+    });
+
+    verifyLoginCode = asyncHandler(async (req: Request, res: Response) => {
+        const { email, code } = req.body;
+
+        const lockedFor = await loginSecurityService.getLockout(email);
+        if (lockedFor > 0) {
+            return this.rejectLocked(res, lockedFor);
+        }
+
+        const user = await passwordlessService.verifyLoginCode(email, code);
+        if (!user) {
+            const lockout = await loginSecurityService.recordFailure(email, req.ip || 'Unknown IP');
+            if (lockout > 0) {
+                return this.rejectLocked(res, lockout);
+            }
+            return apiResponse.unauthorized(res, 'Invalid or expired sign-in code');
+        }
+
+        await loginSecurityService.clearFailures(email);
+
+        await this.finishFirstFactor(req, res, user);
+    });
+
+    // ========================================
+    // Two-factor authentication
+    // ========================================
+    getTwoFactorStatus = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const status = await twoFactorService.getStatus(req.user.userId);
+
+        apiResponse.success(res, 'Two-factor status retrieved', {
+            ...status,
+            required: twoFactorService.isRequiredFor(req.user.role),
+        });
+    });
+
+    // Works signed in, or mid-login with an enrolment challenge token
+    setupTwoFactor = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const user = await this.resolveTwoFactorUser(req);
+        if (!user) {
+            return apiResponse.unauthorized(res, 'Invalid or expired challenge token');
+        }
+
+        if (user.twoFactorEnabled) {
+            return apiResponse.conflict(res, 'Two-factor authentication is already enabled');
+        }
+
+        const setup = await twoFactorService.beginSetup(user);
+
+        apiResponse.success(res, 'Scan the QR code with your authenticator app', setup);
+    });
+
+    enableTwoFactor = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const user = await this.resolveTwoFactorUser(req);
+        if (!user) {
+            return apiResponse.unauthorized(res, 'Invalid or expired challenge token');
+        }
+
+        if (user.twoFactorEnabled) {
+            return apiResponse.conflict(res, 'Two-factor authentication is already enabled');
+        }
+
+        const recoveryCodes = await twoFactorService.enable(String(user._id), req.body.code);
+        if (!recoveryCodes) {
+            return apiResponse.badRequest(res, 'Invalid verification code');
+        }
+
+        await auditService.recordRequest(req, AuditAction.TWO_FACTOR_ENABLE, {
+            actor: { userId: String(user._id), email: user.email, role: user.role },
+        });
+
+        // Enrolling during login finishes the login
+        if (req.body.challengeToken) {
+            return this.completeLogin(req, res, user, { recoveryCodes });
+        }
+
+        apiResponse.success(res, 'Two-factor authentication enabled', { recoveryCodes });
+    });
+
+    verifyTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+        const { challengeToken, code } = req.body;
+
+        let userId: string;
+        try {
+            userId = jwtService.verifyTwoFactorChallenge(challengeToken, '2fa_verify');
+        } catch (error: any) {
+            return apiResponse.unauthorized(res, error.message);
+        }
+
+        const user = await User.findById(userId);
+        if (!user || !user.isActive) {
+            return apiResponse.unauthorized(res, 'Invalid or expired challenge token');
+        }
+
+        // Same per-account lockout as the first factor, so codes can't be guessed within one challenge
+        const lockedFor = await loginSecurityService.getLockout(user.email);
+        if (lockedFor > 0) {
+            return this.rejectLocked(res, lockedFor);
+        }
+
+        const isValid = await twoFactorService.verifyCode(userId, code);
+        if (!isValid) {
+            const lockout = await loginSecurityService.recordFailure(user.email, req.ip || 'Unknown IP');
+            await auditService.recordRequest(req, AuditAction.LOGIN_FAILED, {
+                outcome: 'failure',
+                actor: { userId, email: user.email, role: user.role },
+                metadata: { reason: 'invalid_2fa_code', lockoutSeconds: lockout || undefined },
+            });
+            if (lockout > 0) {
+                return this.rejectLocked(res, lockout);
+            }
+            return apiResponse.unauthorized(res, 'Invalid verification code');
+        }
+
+        await loginSecurityService.clearFailures(user.email);
+
+        await this.completeLogin(req, res, user);
+    });
+
+    disableTwoFactor = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        if (twoFactorService.isRequiredFor(req.user.role)) {
+            return apiResponse.forbidden(res, 'Two-factor authentication is required for your role');
+        }
+
+        const isValid = await twoFactorService.verifyCode(req.user.userId, req.body.code);
+        if (!isValid) {
+            return apiResponse.unauthorized(res, 'Invalid verification code');
+        }
+
+        await twoFactorService.disable(req.user.userId);
+        await auditService.recordRequest(req, AuditAction.TWO_FACTOR_DISABLE);
+
+        apiResponse.success(res, 'Two-factor authentication disabled');
+    });
+
+    regenerateRecoveryCodes = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const isValid = await twoFactorService.verifyCode(req.user.userId, req.body.code);
+        if (!isValid) {
+            return apiResponse.unauthorized(res, 'Invalid verification code');
+        }
+
+        const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.userId);
+
+        apiResponse.success(res, 'Recovery codes regenerated', { recoveryCodes });
+    });
+
+    private async resolveTwoFactorUser(req: AuthRequest): Promise<IUserDocument | null> {
+        let userId = req.user?.userId;
+
+        if (req.body.challengeToken) {
+            try {
+                userId = jwtService.verifyTwoFactorChallenge(req.body.challengeToken, '2fa_enroll');
+            } catch {
+                return null;
+            }
+        }
+
+        if (!userId) return null;
+
+        const user = await User.findById(userId);
+        return user && user.isActive ? user : null;
+    }
+
+    private rejectLocked(res: Response, seconds: number): void {
+        const minutes = Math.ceil(seconds / 60);
+        res.setHeader('Retry-After', seconds);
+        apiResponse.error(
+            res,
+            `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+            429
+        );
+    }
+
+    /**
+     * Password, magic link and email code are all only a first factor
+     * for accounts that need 2FA
+     */
+    private async finishFirstFactor(req: Request, res: Response, user: IUserDocument): Promise<void> {
+        const challenge = twoFactorService.getLoginChallenge(user);
+        if (challenge) {
+            return apiResponse.success(res, 'Two-factor authentication required', challenge);
+        }
+
+        await this.completeLogin(req, res, user);
+    }
+
+    /**
+     * Issue the cookie-based token pair once every required factor has been checked
+     */
+    private async completeLogin(
+        req: Request,
+        res: Response,
+        user: IUserDocument,
+        extra: Record<string, unknown> = {}
+    ): Promise<void> {
         const deviceInfo = req.headers['user-agent'] || 'Unknown Device';
         const ipAddress = req.ip || 'Unknown IP';
+        const location = getClientLocation(req);
+
+        await loginSecurityService.notifyIfNewLogin(user, deviceInfo, ipAddress, location);
+
+        // Signing in during the grace period keeps the account
+        if (user.deletionScheduledFor) {
+            await accountDeletionService.cancelDeletion(user);
+            extra = { ...extra, deletionCancelled: true };
+        }
 
         const tokens = await jwtService.generateTokenPair(
             String(user._id),
             user.email,
             user.role,
             deviceInfo,
-            ipAddress
+            ipAddress,
+            location
         );
 
+        await auditService.recordRequest(req, AuditAction.LOGIN, {
+            actor: { userId: String(user._id), email: user.email, role: user.role },
+            metadata: location ? { location } : undefined,
+        });
+
         // Set cookies
         cookieHelper.setTokens(res, tokens.accessToken, tokens.refreshToken);
 
@@ -112,8 +406,9 @@ class AuthController {
                 profileImage: user.profileImage,
             },
             accessToken: tokens.accessToken,
+            ...extra,
         });
-    });
+    }
 
     refreshToken = asyncHandler(async (req: Request, res: Response) => {
         const refreshToken = req.cookies[COOKIE_NAMES.REFRESH_TOKEN];
@@ -131,26 +426,31 @@ class AuthController {
             session.startTransaction();
 
             try {
-                const userId = await jwtService.verifyRefreshToken(refreshToken);
+                const userId = await jwtService.verifyRefreshToken(refreshToken, undefined, {
+                    deviceInfo,
+                    ipAddress
+                });
 
                 const user = await User.findById(userId).session(session);
-                if (!user) {
+                if (!user || !user.isActive) {
                     await session.abortTransaction();
                     cookieHelper.clearTokens(res);
-                    return apiResponse.unauthorized(res, 'User not found');
+                    return apiResponse.unauthorized(res, user ? 'Account is deactivated' : 'User not found');
                 }
 
-                const newRefreshToken = await jwtService.rotateRefreshToken(
+                const { refreshToken: newRefreshToken, deviceId } = await jwtService.rotateRefreshToken(
                     refreshToken,
                     deviceInfo,
                     ipAddress,
-                    session
+                    session,
+                    getClientLocation(req)
                 );
 
                 const accessToken = jwtService.generateAccessToken(
                     String(user._id),
                     user.email,
-                    user.role
+                    user.role,
+                    deviceId
                 );
 
                 await session.commitTransaction();
@@ -180,6 +480,10 @@ class AuthController {
             }
         }
 
+        if (req.user) {
+            await auditService.recordRequest(req, AuditAction.LOGOUT);
+        }
+
         // Clear cookies
         cookieHelper.clearTokens(res);
 
@@ -192,6 +496,7 @@ class AuthController {
         }
 
         await jwtService.revokeAllUserTokens(req.user.userId);
+        await auditService.recordRequest(req, AuditAction.LOGOUT_ALL);
 
         // Clear cookies
         cookieHelper.clearTokens(res);
@@ -278,6 +583,7 @@ class AuthController {
         await user.save();
 
         await jwtService.revokeAllUserTokens(req.user.userId);
+        await auditService.recordRequest(req, AuditAction.PASSWORD_CHANGE);
         cookieHelper.clearTokens(res);
 
         apiResponse.success(res, 'Password changed successfully. Please login again.');
@@ -322,6 +628,10 @@ class AuthController {
         user.passwordResetExpires = undefined as any;
         await user.save();
 
+        await auditService.recordRequest(req, AuditAction.PASSWORD_RESET, {
+            actor: { userId: String(user._id), email: user.email, role: user.role },
+        });
+
         apiResponse.success(res, 'Password reset successful');
     });
 
@@ -342,6 +652,176 @@ class AuthController {
         apiResponse.success(res, 'Email verified successfully');
     });
 
+    // List the devices currently signed in to this account
+    getSessions = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const sessions = await jwtService.getUserSessions(req.user.userId, req.user.deviceId);
+
+        apiResponse.success(res, 'Sessions retrieved successfully', { sessions });
+    });
+
+    // Sign out a single device
+    revokeSession = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const revoked = await jwtService.revokeSession(req.user.userId, req.params.id);
+
+        if (!revoked) {
+            return apiResponse.notFound(res, 'Session not found');
+        }
+
+        const { deviceId } = revoked;
+        await auditService.recordRequest(req, AuditAction.TOKEN_REVOKE, {
+            targetType: 'token',
+            targetId: req.params.id,
+            metadata: { deviceId, currentDevice: deviceId === req.user.deviceId },
+        });
+
+        const socketManager = req.app.locals.socketManager as SocketManager | undefined;
+        if (socketManager && deviceId) {
+            await socketManager.disconnectDevice(
+                req.user.userId,
+                deviceId,
+                'This device has been signed out.'
+            );
+        }
+
+        if (deviceId && deviceId === req.user.deviceId) {
+            cookieHelper.clearTokens(res);
+        }
+
+        apiResponse.success(res, 'Session revoked successfully');
+    });
+
+    // ========================================
+    // Personal data export
+    // ========================================
+    requestDataExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const { dataExport, created } = await dataExportService.requestExport(req.user.userId);
+
+        if (!created) {
+            return apiResponse.error(
+                res,
+                dataExport.status === 'ready'
+                    ? 'An export was already sent recently. Check your email for the download link.'
+                    : 'Your data export is already being prepared',
+                429
+            );
+        }
+
+        const messageQueue = req.app.locals.messageQueue as MessageQueue;
+        await messageQueue.addToNotificationQueue({
+            type: 'data_export',
+            exportId: String(dataExport._id),
+            userId: req.user.userId,
+        });
+
+        await auditService.recordRequest(req, AuditAction.DATA_EXPORT_REQUEST, {
+            targetType: 'export',
+            targetId: String(dataExport._id),
+        });
+
+        apiResponse.success(
+            res,
+            'Your data export is being prepared. We will email you a download link.',
+            { exportId: dataExport._id, status: dataExport.status },
+            202
+        );
+    });
+
+    getDataExportStatus = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const dataExport = await dataExportService.getLatestExport(req.user.userId);
+
+        if (!dataExport) {
+            return apiResponse.notFound(res, 'No data export found');
+        }
+
+        apiResponse.success(res, 'Data export status retrieved', {
+            exportId: dataExport._id,
+            status: dataExport.status,
+            size: dataExport.size,
+            requestedAt: dataExport.createdAt,
+            completedAt: dataExport.completedAt,
+            expiresAt: dataExport.expiresAt,
+        });
+    });
+
+    // Target of the emailed link; the token in the link is the credential
+    downloadDataExport = asyncHandler(async (req: Request, res: Response) => {
+        const download = await dataExportService.resolveDownload(
+            req.params.exportId,
+            String(req.query.token || '')
+        );
+
+        if (!download) {
+            return apiResponse.notFound(res, 'Download link is invalid or has expired');
+        }
+
+        await auditService.recordRequest(req, AuditAction.DATA_EXPORT_DOWNLOAD, {
+            actor: { userId: String(download.dataExport.userId) },
+            targetType: 'export',
+            targetId: String(download.dataExport._id),
+        });
+
+        const date = download.dataExport.createdAt.toISOString().slice(0, 10);
+        res.download(download.filePath, `ai-tutor-data-export-${date}.json`);
+    });
+
+    // ========================================
+    // Account deletion
+    // ========================================
+    deleteAccount = asyncHandler(async (req: AuthRequest, res: Response) => {
+        if (!req.user) {
+            return apiResponse.unauthorized(res, 'User not authenticated');
+        }
+
+        const confirmed = await credentialService.confirm(req.user.userId, req.body);
+        if (!confirmed) {
+            return apiResponse.unauthorized(res, 'Invalid password or verification code');
+        }
+
+        const user = await User.findById(req.user.userId);
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        if (user.deletionScheduledFor) {
+            return apiResponse.conflict(res, 'Account deletion is already scheduled');
+        }
+
+        const scheduledFor = await accountDeletionService.scheduleDeletion(user);
+
+        await auditService.recordRequest(req, AuditAction.ACCOUNT_DELETE_REQUEST, {
+            targetType: 'user',
+            targetId: req.user.userId,
+            metadata: { scheduledFor },
+        });
+
+        const socketManager = req.app.locals.socketManager as SocketManager | undefined;
+        if (socketManager) {
+            await socketManager.disconnectUser(req.user.userId, 'Your account is scheduled for deletion.');
+        }
+
+        cookieHelper.clearTokens(res);
+
+        apiResponse.success(res, 'Account scheduled for deletion. Sign in again before then to cancel.', {
+            scheduledFor,
+        });
+    });
+
     verifyAuth = asyncHandler(async (req: AuthRequest, res: Response) => {
         if (!req.user) {
             return apiResponse.unauthorized(res, 'Not authenticated');
@@ -0,0 +1,40 @@
+import { Response } from 'express';
+import apiResponse from '@/utils/apiResponse';
+import { AuthRequest } from '@/types';
+import { asyncHandler } from '@/middlewares/errorMiddleware';
+import callService from '@/services/callService';
+import { getWebRTCConfig } from '@/config/webrtc';
+
+class CallController {
+    listCalls = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const { sessionId, page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+
+        const pageNum = Math.max(1, Number(page));
+        const limitNum = Math.min(100, Math.max(1, Number(limit)));
+
+        const { calls, total } = await callService.listCalls(req.user!.userId, {
+            sessionId,
+            page: pageNum,
+            limit: limitNum,
+        });
+
+        apiResponse.success(res, 'Calls retrieved successfully', {
+            calls,
+            pagination: {
+                total,
+                page: pageNum,
+                limit: limitNum,
+                pages: Math.ceil(total / limitNum),
+            },
+        });
+    });
+
+    // ICE servers (with this user's TURN credentials) for setting up the peer connection
+    getRTCConfig = asyncHandler(async (req: AuthRequest, res: Response) => {
+        apiResponse.success(res, 'WebRTC configuration retrieved successfully', {
+            rtcConfig: getWebRTCConfig(req.user!.userId),
+        });
+    });
+}
+
+export default new CallController();
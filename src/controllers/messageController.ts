@@ -1,9 +1,23 @@
 // src/controllers/messageController.ts - COMPLETE FIXED VERSION
 import { Request, Response } from 'express';
-import SessionService from '@/services/session/SessionService';
+import SessionService, { RegenerationError } from '@/services/session/SessionService';
 import logger from '@/config/logger';
 import { AuthRequest } from '@/types';
 import Message from '@/models/Message';
+import MessageQueue from '@/services/queue/MessageQueue';
+import { Permission, hasPermission } from '@/config/permissions';
+import auditService from '@/services/auditService';
+import speechService from '@/services/speechService';
+import recordingService from '@/services/recordingService';
+import { audioMimeType } from '@/utils/audio';
+import { AuditAction } from '@/models/AuditLog';
+
+const REGENERATION_ERROR_STATUS: Record<RegenerationError, number> = {
+    MESSAGE_NOT_FOUND: 404,
+    INVALID_MESSAGE: 400,
+    SESSION_INACTIVE: 400,
+    PROMPT_NOT_FOUND: 404
+};
 
 export class MessageController {
     private sessionService: SessionService;
@@ -50,9 +64,18 @@ export class MessageController {
             }
 
             if (session.userId.toString() !== userId) {
-                return res.status(403).json({
-                    success: false,
-                    message: 'Access denied'
+                if (!hasPermission(authReq.user.role, Permission.SESSION_READ_ANY)) {
+                    return res.status(403).json({
+                        success: false,
+                        message: 'Access denied'
+                    });
+                }
+
+                await auditService.recordRequest(req, AuditAction.SESSION_ACCESS, {
+                    targetUserId: session.userId.toString(),
+                    targetType: 'session',
+                    targetId: sessionId,
+                    metadata: { resource: 'messages' }
                 });
             }
 
@@ -221,16 +244,135 @@ export class MessageController {
     }
 
 
+    /**
+     * Stream the synthesised speech stored for an assistant reply
+     */
+    async getMessageAudio(req: Request, res: Response): Promise<Response | void> {
+        try {
+            const { messageId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const userId = authReq.user.userId;
+
+            const message = await Message.findOne({
+                _id: messageId,
+                userId
+            }).select('role metadata.speech');
+
+            const speech = message?.metadata?.speech;
+            const filePath = speech ? await speechService.resolve(userId, speech) : null;
+
+            if (!speech || !filePath) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'No audio for this message'
+                });
+            }
+
+            res.type(audioMimeType(speech.format));
+            res.setHeader('Cache-Control', 'private, max-age=3600');
+            res.sendFile(filePath);
+        } catch (error) {
+            logger.error('Get message audio error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get message audio'
+            });
+        }
+    }
+
+    /**
+     * Signed playback URL for the recording behind a voice message.
+     * Open to whoever can see the session: the student, the template's tutor or an admin.
+     */
+    async getMessageRecording(req: Request, res: Response): Promise<Response | void> {
+        try {
+            const { messageId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const message = await Message.findById(messageId).select('sessionId userId metadata.audio');
+            const audio = message?.metadata?.audio;
+            const session = message ? await this.sessionService.getSessionById(message.sessionId) : null;
+            const access = session ? await this.sessionService.getSessionAccess(session, authReq.user) : null;
+
+            // Same answer for "no such message" and "not yours", so IDs can't be probed
+            if (!message || !session || !access) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Message not found'
+                });
+            }
+
+            if (!audio?.storageKey) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'No recording for this message'
+                });
+            }
+
+            if (access !== 'owner') {
+                await auditService.recordRequest(req, AuditAction.SESSION_ACCESS, {
+                    targetUserId: session.userId.toString(),
+                    targetType: 'message',
+                    targetId: messageId,
+                    metadata: { resource: 'recording', sessionId: session.sessionId, access }
+                });
+            }
+
+            const { url, expiresAt } = await recordingService.getPlaybackUrl({
+                ...audio,
+                storageKey: audio.storageKey
+            });
+
+            return res.json({
+                success: true,
+                data: {
+                    url,
+                    expiresAt,
+                    format: audio.format,
+                    size: audio.size,
+                    durationMs: audio.durationMs
+                }
+            });
+        } catch (error) {
+            logger.error('Get message recording error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get message recording'
+            });
+        }
+    }
+
     // Delete message
     async deleteMessage(req: Request, res: Response): Promise<Response | void> {
         try {
             const { messageId } = req.params;
-            const userId = req.user?.id;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
 
-            const Message = require('../models/Message').default;
             const message = await Message.findOneAndDelete({
                 _id: messageId,
-                userId
+                userId: authReq.user.userId
             });
 
             if (!message) {
@@ -240,6 +382,20 @@ export class MessageController {
                 });
             }
 
+            if (message.metadata?.audio?.storageKey) {
+                await recordingService.remove(message.metadata.audio.storageKey);
+            }
+
+            if (message.metadata?.speech) {
+                await speechService.remove(authReq.user.userId, message.metadata.speech);
+            }
+
+            await auditService.recordRequest(req, AuditAction.MESSAGE_DELETE, {
+                targetType: 'message',
+                targetId: messageId,
+                metadata: { sessionId: String(message.sessionId), role: message.role }
+            });
+
             res.json({
                 success: true,
                 message: 'Message deleted successfully'
@@ -252,4 +408,233 @@ export class MessageController {
             });
         }
     }
+
+    /**
+     * Get all versions of a message (regenerated replies or edited prompts)
+     */
+    async getMessageVersions(req: Request, res: Response): Promise<Response | void> {
+        try {
+            const { messageId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const message = await Message.findOne({
+                _id: messageId,
+                userId: authReq.user.userId
+            });
+
+            if (!message) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Message not found'
+                });
+            }
+
+            const versions = await this.sessionService.getMessageVersions(message);
+
+            return res.json({
+                success: true,
+                data: {
+                    versions,
+                    total: versions.length
+                }
+            });
+        } catch (error) {
+            logger.error('Get message versions error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get message versions'
+            });
+        }
+    }
+
+    /**
+     * Regenerate an assistant reply as a new sibling version
+     */
+    async regenerateMessage(req: Request, res: Response): Promise<Response | void> {
+        try {
+            const { messageId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const plan = await this.sessionService.prepareRegeneration(messageId, authReq.user.userId);
+
+            if (!plan.ok) {
+                return res.status(REGENERATION_ERROR_STATUS[plan.code]).json({
+                    success: false,
+                    message: plan.message
+                });
+            }
+
+            const { session, reply, prompt } = plan;
+
+            const messageQueue = req.app.locals.messageQueue as MessageQueue;
+            const job = await messageQueue.addToLLMQueue(plan.job);
+
+            return res.status(202).json({
+                success: true,
+                message: 'Regeneration queued',
+                data: {
+                    sessionId: session.sessionId,
+                    replyTo: prompt._id,
+                    regeneratedFrom: reply._id,
+                    jobId: job?.id
+                }
+            });
+        } catch (error) {
+            logger.error('Regenerate message error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to regenerate message'
+            });
+        }
+    }
+
+    /**
+     * Get the thread continuing from a message, including abandoned branches
+     */
+    async getMessageBranch(req: Request, res: Response): Promise<Response | void> {
+        try {
+            const { messageId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const message = await Message.findOne({
+                _id: messageId,
+                userId: authReq.user.userId
+            });
+
+            if (!message) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Message not found'
+                });
+            }
+
+            const messages = await this.sessionService.getBranchFrom(message);
+
+            return res.json({
+                success: true,
+                data: {
+                    messages,
+                    isActive: message.isActive !== false
+                }
+            });
+        } catch (error) {
+            logger.error('Get message branch error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get message branch'
+            });
+        }
+    }
+
+    /**
+     * Edit a user message by forking the conversation from it.
+     * The original message and everything after it stay readable as an inactive branch.
+     */
+    async editMessage(req: Request, res: Response): Promise<Response | void> {
+        try {
+            const { messageId } = req.params;
+            const { content } = req.body;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Authentication required'
+                });
+            }
+
+            const userId = authReq.user.userId;
+
+            const original = await Message.findOne({ _id: messageId, userId });
+
+            if (!original) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Message not found'
+                });
+            }
+
+            if (original.role !== 'user') {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Only user messages can be edited'
+                });
+            }
+
+            // Cutting the active branch at an abandoned message's timestamp would drop unrelated newer turns
+            if (original.isActive === false) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Only messages on the active branch can be edited'
+                });
+            }
+
+            const session = await this.sessionService.getSessionById(original.sessionId);
+
+            if (!session || session.status !== 'active') {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Session is not active'
+                });
+            }
+
+            // Cut the conversation back to just before the original message
+            const history = await this.sessionService.getHistoryAt(session, original, false);
+            await this.sessionService.deactivateFrom(session, original);
+            await this.sessionService.restoreContextWindow(session, history);
+
+            const edited = await this.sessionService.addMessage(
+                session.sessionId,
+                userId,
+                'user',
+                content.trim()
+            );
+
+            const messageQueue = req.app.locals.messageQueue as MessageQueue;
+            const job = await messageQueue.addToLLMQueue({
+                sessionId: session.sessionId,
+                userId,
+                messageId: edited._id.toString(),
+                content: edited.content,
+                context: this.sessionService.buildLLMContext(session, history)
+            });
+
+            return res.status(201).json({
+                success: true,
+                message: 'Message edited',
+                data: {
+                    message: edited,
+                    originalMessageId: original._id,
+                    jobId: job?.id
+                }
+            });
+        } catch (error) {
+            logger.error('Edit message error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to edit message'
+            });
+        }
+    }
 }
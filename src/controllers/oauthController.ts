@@ -0,0 +1,213 @@
+import { Request, Response, NextFunction } from 'express';
+import passport from '@/config/passport';
+import { oauthProviders, getOAuthProvider } from '@/config/oauthProviders';
+import jwtService from '@/services/jwtService';
+import twoFactorService from '@/services/twoFactorService';
+import oauthService from '@/services/oauthService';
+import credentialService from '@/services/credentialService';
+import loginSecurityService from '@/services/loginSecurityService';
+import auditService from '@/services/auditService';
+import { AuditAction } from '@/models/AuditLog';
+import accountDeletionService from '@/services/accountDeletionService';
+import User from '@/models/User';
+import cookieHelper from '@/utils/cookieHelper';
+import apiResponse from '@/utils/apiResponse';
+import { getClientLocation } from '@/utils/deviceInfo';
+import config from '@/config/env';
+import logger from '@/config/logger';
+import { IUserDocument } from '@/models/User';
+import { asyncHandler } from '@/middlewares/errorMiddleware';
+import { AuthRequest } from '@/types';
+
+const redirectWithError = (res: Response, message: string) =>
+    res.redirect(`${config.frontendUrl}/auth/error?message=${encodeURIComponent(message)}`);
+
+class OAuthController {
+    // Lets the frontend render one button per configured provider
+    listProviders = (_req: Request, res: Response) => {
+        apiResponse.success(res, 'Login providers retrieved', {
+            providers: oauthProviders.map(provider => ({
+                name: provider.name,
+                displayName: provider.displayName,
+                loginUrl: `${config.apiUrl}/api/auth/oauth/${provider.name}`,
+            })),
+        });
+    };
+
+    /**
+     * Start the redirect to the provider. Pass a name for fixed routes,
+     * otherwise the provider comes from the :provider route parameter.
+     */
+    authenticate = (providerName?: string) => (req: Request, res: Response, next: NextFunction) => {
+        const provider = getOAuthProvider(providerName || req.params.provider);
+        if (!provider) {
+            return apiResponse.notFound(res, 'Login provider not found or not configured');
+        }
+
+        // Linking: the confirmed intent must belong to whoever is signed in in this browser
+        const linkToken = typeof req.query.link === 'string' ? req.query.link : undefined;
+        if (linkToken) {
+            try {
+                const intent = jwtService.verifyAccountLinkToken(linkToken);
+                const currentUser = (req as AuthRequest).user;
+
+                if (intent.provider !== provider.name || currentUser?.userId !== intent.userId) {
+                    return redirectWithError(res, 'Invalid link request');
+                }
+            } catch (error: any) {
+                return redirectWithError(res, error.message);
+            }
+
+            req.session.oauthLinkToken = linkToken;
+        } else if (req.session?.oauthLinkToken) {
+            // An abandoned link attempt must not turn a later login into a link
+            delete req.session.oauthLinkToken;
+        }
+
+        passport.authenticate(provider.name, {
+            scope: provider.scope,
+            session: false,
+        })(req, res, next);
+    };
+
+    // Shared callback for every provider
+    callback = (providerName?: string) => (req: Request, res: Response, next: NextFunction) => {
+        const provider = getOAuthProvider(providerName || req.params.provider);
+        if (!provider) {
+            return redirectWithError(res, 'Login provider not found or not configured');
+        }
+
+        passport.authenticate(provider.name, { session: false }, async (err: any, user: IUserDocument, info?: { linked?: boolean }) => {
+            try {
+                if (err || !user) {
+                    return redirectWithError(res, err?.message || 'Authentication failed');
+                }
+
+                // Already signed in; nothing to issue
+                if (info?.linked) {
+                    await auditService.recordRequest(req, AuditAction.IDENTITY_LINK, {
+                        actor: { userId: String(user._id), email: user.email, role: user.role },
+                        metadata: { provider: provider.name },
+                    });
+                    return res.redirect(`${config.frontendUrl}/settings/accounts?linked=${provider.name}`);
+                }
+
+                if (!user.isActive) {
+                    return redirectWithError(res, 'Account is deactivated');
+                }
+
+                // The provider only vouches for the first factor
+                const challenge = twoFactorService.getLoginChallenge(user);
+                if (challenge) {
+                    const params = new URLSearchParams({
+                        challenge: challenge.challengeToken,
+                        setup: String(challenge.setupRequired),
+                    });
+                    return res.redirect(`${config.frontendUrl}/auth/2fa?${params.toString()}`);
+                }
+
+                const deviceInfo = req.headers['user-agent'] || 'Unknown Device';
+                const ipAddress = req.ip || 'Unknown IP';
+                const location = getClientLocation(req);
+
+                await loginSecurityService.notifyIfNewLogin(user, deviceInfo, ipAddress, location);
+
+                const deletionCancelled = !!user.deletionScheduledFor;
+                if (deletionCancelled) {
+                    await accountDeletionService.cancelDeletion(user);
+                }
+
+                const tokens = await jwtService.generateTokenPair(
+                    String(user._id),
+                    user.email,
+                    user.role,
+                    deviceInfo,
+                    ipAddress,
+                    location
+                );
+
+                await auditService.recordRequest(req, AuditAction.LOGIN, {
+                    actor: { userId: String(user._id), email: user.email, role: user.role },
+                    metadata: { provider: provider.name, ...(location && { location }) },
+                });
+
+                cookieHelper.setTokens(res, tokens.accessToken, tokens.refreshToken);
+
+                res.redirect(`${config.frontendUrl}/auth/success${deletionCancelled ? '?deletionCancelled=true' : ''}`);
+            } catch (error) {
+                logger.error(`${provider.name} login error:`, error);
+                redirectWithError(res, 'Authentication failed');
+            }
+        })(req, res, next);
+    };
+
+    // Sign-in methods on the current account, and which providers could still be linked
+    getLinkedAccounts = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const user = await User.findById(req.user!.userId).select('+password');
+        if (!user) {
+            return apiResponse.notFound(res, 'User not found');
+        }
+
+        const identities = user.identities.map(identity => ({
+            provider: identity.provider,
+            email: identity.email,
+            linkedAt: identity.linkedAt,
+        }));
+
+        if (user.googleId && !identities.some(identity => identity.provider === 'google')) {
+            identities.push({ provider: 'google', email: user.email, linkedAt: user.createdAt });
+        }
+
+        apiResponse.success(res, 'Linked accounts retrieved', {
+            hasPassword: !!user.password,
+            identities,
+            available: oauthProviders
+                .filter(provider => !identities.some(identity => identity.provider === provider.name))
+                .map(provider => ({ name: provider.name, displayName: provider.displayName })),
+        });
+    });
+
+    /**
+     * Confirm credentials, then hand back the provider redirect that completes the link
+     */
+    startLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const provider = getOAuthProvider(req.params.provider);
+        if (!provider) {
+            return apiResponse.notFound(res, 'Login provider not found or not configured');
+        }
+
+        const userId = req.user!.userId;
+        const confirmed = await credentialService.confirm(userId, req.body);
+        if (!confirmed) {
+            return apiResponse.unauthorized(res, 'Invalid password or verification code');
+        }
+
+        const linkToken = jwtService.generateAccountLinkToken(userId, provider.name);
+
+        apiResponse.success(res, 'Continue to the provider to link your account', {
+            redirectUrl: `${config.apiUrl}/api/auth/oauth/${provider.name}?link=${encodeURIComponent(linkToken)}`,
+        });
+    });
+
+    unlink = asyncHandler(async (req: AuthRequest, res: Response) => {
+        const userId = req.user!.userId;
+        const confirmed = await credentialService.confirm(userId, req.body);
+        if (!confirmed) {
+            return apiResponse.unauthorized(res, 'Invalid password or verification code');
+        }
+
+        try {
+            await oauthService.unlinkIdentity(userId, req.params.provider);
+        } catch (error: any) {
+            return apiResponse.badRequest(res, error.message);
+        }
+
+        await auditService.recordRequest(req, AuditAction.IDENTITY_UNLINK, {
+            metadata: { provider: req.params.provider },
+        });
+
+        apiResponse.success(res, `${req.params.provider} account unlinked`);
+    });
+}
+
+export default new OAuthController();
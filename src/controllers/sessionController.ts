@@ -1,14 +1,20 @@
 // src/controllers/sessionController.ts - COMPLETE FIXED VERSION
 import { Request, Response } from 'express';
-import SessionService from '@/services/session/SessionService';
+import SessionService, { TEMPLATE_CONTROLLED_FIELDS } from '@/services/session/SessionService';
+import TemplateService from '@/services/template/TemplateService';
 import logger from '@/config/logger';
 import { AuthRequest } from '@/types';
+import { Permission, hasPermission } from '@/config/permissions';
+import auditService from '@/services/auditService';
+import { AuditAction } from '@/models/AuditLog';
 
 export class SessionController {
     private sessionService: SessionService;
+    private templateService: TemplateService;
 
     constructor() {
         this.sessionService = new SessionService();
+        this.templateService = new TemplateService();
     }
 
     async createSession(req: Request, res: Response): Promise<Response> {
@@ -23,7 +29,7 @@ export class SessionController {
             }
 
             const userId = authReq.user.userId;
-            const { topic, metadata } = req.body;
+            const { topic, metadata, config, templateId } = req.body;
 
             if (topic && typeof topic !== 'string') {
                 return res.status(400).json({
@@ -32,10 +38,35 @@ export class SessionController {
                 });
             }
 
+            let sessionTopic = topic;
+            let tutorConfig = config;
+            let starterQuestions: string[] = [];
+
+            if (templateId) {
+                const template = await this.templateService.getTemplate(templateId);
+
+                if (!template || !this.templateService.canUse(template, userId)) {
+                    return res.status(404).json({
+                        success: false,
+                        message: 'Template not found'
+                    });
+                }
+
+                // The template's settings take precedence over ad-hoc config
+                tutorConfig = {
+                    ...config,
+                    ...this.templateService.buildTutorConfig(template)
+                };
+                starterQuestions = template.starterQuestions;
+                sessionTopic = topic || template.name;
+            }
+
             const session = await this.sessionService.createSession(
                 userId,
-                topic,
-                metadata
+                sessionTopic,
+                metadata,
+                tutorConfig,
+                templateId
             );
 
             logger.info(`Session created: ${session.sessionId} by user: ${userId}`);
@@ -47,9 +78,12 @@ export class SessionController {
                         id: session._id,
                         sessionId: session.sessionId,
                         topic: session.metadata.topic,
+                        config: session.tutorConfig,
+                        templateId: session.templateId,
                         status: session.status,
                         createdAt: session.createdAt
-                    }
+                    },
+                    starterQuestions
                 }
             });
         } catch (error) {
@@ -131,9 +165,18 @@ export class SessionController {
             }
 
             if (session.userId.toString() !== userId) {
-                return res.status(403).json({
-                    success: false,
-                    message: 'Access denied'
+                if (!hasPermission(authReq.user.role, Permission.SESSION_READ_ANY)) {
+                    return res.status(403).json({
+                        success: false,
+                        message: 'Access denied'
+                    });
+                }
+
+                await auditService.recordRequest(req, AuditAction.SESSION_ACCESS, {
+                    targetUserId: session.userId.toString(),
+                    targetType: 'session',
+                    targetId: sessionId,
+                    metadata: { resource: 'session' }
                 });
             }
 
@@ -190,6 +233,67 @@ export class SessionController {
         }
     }
 
+    async updateSessionConfig(req: Request, res: Response): Promise<Response> {
+        try {
+            const { sessionId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'User not authenticated'
+                });
+            }
+
+            const userId = authReq.user.userId;
+            const { subject, gradeLevel, teachingStyle, language, systemPrompt, voiceMode } = req.body;
+
+            const current = await this.sessionService.getSession(sessionId);
+
+            // The tutor who wrote the template manages these, not the student
+            if (current?.templateId && current.userId.toString() === userId) {
+                const locked = TEMPLATE_CONTROLLED_FIELDS.filter(field => req.body[field] !== undefined);
+
+                if (locked.length > 0) {
+                    return res.status(403).json({
+                        success: false,
+                        message: `Set by the session's template and cannot be changed: ${locked.join(', ')}`
+                    });
+                }
+            }
+
+            const session = await this.sessionService.updateTutorConfig(sessionId, userId, {
+                subject,
+                gradeLevel,
+                teachingStyle,
+                language,
+                systemPrompt,
+                voiceMode
+            });
+
+            if (!session) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Session not found or already ended'
+                });
+            }
+
+            return res.json({
+                success: true,
+                data: {
+                    sessionId: session.sessionId,
+                    config: session.tutorConfig
+                }
+            });
+        } catch (error) {
+            logger.error('Update session config error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to update session config'
+            });
+        }
+    }
+
     async endSession(req: Request, res: Response): Promise<Response> {
         try {
             const { sessionId } = req.params;
@@ -0,0 +1,249 @@
+// src/controllers/templateController.ts
+import { Request, Response } from 'express';
+import TemplateService from '@/services/template/TemplateService';
+import logger from '@/config/logger';
+import { AuthRequest } from '@/types';
+
+// Only these body fields may be written to a template
+const pickTemplateFields = (body: Record<string, any>) => {
+    const {
+        name,
+        description,
+        subject,
+        gradeLevel,
+        teachingStyle,
+        language,
+        systemPrompt,
+        starterQuestions,
+        allowedTools,
+        isPublished
+    } = body;
+
+    return {
+        name,
+        description,
+        subject,
+        gradeLevel,
+        teachingStyle,
+        language,
+        systemPrompt,
+        starterQuestions,
+        allowedTools,
+        isPublished
+    };
+};
+
+export class TemplateController {
+    private templateService: TemplateService;
+
+    constructor() {
+        this.templateService = new TemplateService();
+    }
+
+    async createTemplate(req: Request, res: Response): Promise<Response> {
+        try {
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'User not authenticated'
+                });
+            }
+
+            const template = await this.templateService.createTemplate(
+                authReq.user.userId,
+                pickTemplateFields(req.body)
+            );
+
+            return res.status(201).json({
+                success: true,
+                data: { template }
+            });
+        } catch (error) {
+            logger.error('Create template error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to create template'
+            });
+        }
+    }
+
+    async getTemplates(req: Request, res: Response): Promise<Response> {
+        try {
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'User not authenticated'
+                });
+            }
+
+            const { subject, mine, limit = '20', page = '1' } = req.query;
+            const pageNum = Number(page);
+            const limitNum = Number(limit);
+
+            const { templates, total } = await this.templateService.listTemplates(
+                authReq.user.userId,
+                authReq.user.role,
+                {
+                    subject: subject as string | undefined,
+                    mine: mine === 'true',
+                    page: pageNum,
+                    limit: limitNum
+                }
+            );
+
+            return res.json({
+                success: true,
+                data: {
+                    templates,
+                    pagination: {
+                        total,
+                        page: pageNum,
+                        limit: limitNum,
+                        pages: Math.ceil(total / limitNum)
+                    }
+                }
+            });
+        } catch (error) {
+            logger.error('Get templates error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get templates'
+            });
+        }
+    }
+
+    async getTemplate(req: Request, res: Response): Promise<Response> {
+        try {
+            const { templateId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'User not authenticated'
+                });
+            }
+
+            const template = await this.templateService.getTemplate(templateId);
+
+            if (!template) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Template not found'
+                });
+            }
+
+            if (!template.isPublished &&
+                !this.templateService.canManage(template, authReq.user.userId, authReq.user.role)) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'Access denied'
+                });
+            }
+
+            return res.json({
+                success: true,
+                data: { template }
+            });
+        } catch (error) {
+            logger.error('Get template error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to get template'
+            });
+        }
+    }
+
+    async updateTemplate(req: Request, res: Response): Promise<Response> {
+        try {
+            const { templateId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'User not authenticated'
+                });
+            }
+
+            const template = await this.templateService.getTemplate(templateId);
+
+            if (!template) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Template not found'
+                });
+            }
+
+            if (!this.templateService.canManage(template, authReq.user.userId, authReq.user.role)) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'Access denied'
+                });
+            }
+
+            const updated = await this.templateService.updateTemplate(
+                template,
+                pickTemplateFields(req.body)
+            );
+
+            return res.json({
+                success: true,
+                data: { template: updated }
+            });
+        } catch (error) {
+            logger.error('Update template error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to update template'
+            });
+        }
+    }
+
+    async deleteTemplate(req: Request, res: Response): Promise<Response> {
+        try {
+            const { templateId } = req.params;
+            const authReq = req as AuthRequest;
+
+            if (!authReq.user?.userId) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'User not authenticated'
+                });
+            }
+
+            const template = await this.templateService.getTemplate(templateId);
+
+            if (!template) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'Template not found'
+                });
+            }
+
+            if (!this.templateService.canManage(template, authReq.user.userId, authReq.user.role)) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'Access denied'
+                });
+            }
+
+            await this.templateService.deleteTemplate(template);
+
+            return res.json({
+                success: true,
+                message: 'Template deleted successfully'
+            });
+        } catch (error) {
+            logger.error('Delete template error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'Failed to delete template'
+            });
+        }
+    }
+}
@@ -1,7 +1,7 @@
 // src/middlewares/authMiddleware.ts
-import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
-import { AuthRequest, UserRole, IJWTPayload, IUser } from '@/types';
+import { AuthRequest, IJWTPayload, IUser } from '@/types';
+import { Permission, hasAllPermissions } from '@/config/permissions';
 import jwtService from '@/services/jwtService';
 import apiResponse from '@/utils/apiResponse';
 import { COOKIE_NAMES } from '@/utils/cookieHelper';
@@ -29,8 +29,20 @@ export const authenticate = async (
 
         const decoded = jwtService.verifyAccessToken(token);
 
+        const user = await User.findById(decoded.userId).select('role isActive');
+
+        if (!user || !user.isActive) {
+            apiResponse.unauthorized(res, 'Account is deactivated');
+            return;
+        }
+
+        if (!(await jwtService.isDeviceActive(decoded.userId, decoded.deviceId))) {
+            apiResponse.unauthorized(res, 'Session has been revoked');
+            return;
+        }
+
         // cast to AuthRequest to set typed user
-        (req as AuthRequest).user = decoded;
+        (req as AuthRequest).user = { ...decoded, role: user.role };
 
         next();
     } catch (error: any) {
@@ -44,7 +56,10 @@ export const authenticate = async (
     }
 };
 
-export const authorize = (...allowedRoles: UserRole[]) => {
+/**
+ * Require the authenticated user's role to grant every listed permission
+ */
+export const authorize = (...permissions: Permission[]) => {
     return (req: Request, res: Response, next: NextFunction): void => {
         const authReq = req as AuthRequest;
         if (!authReq.user) {
@@ -52,7 +67,7 @@ export const authorize = (...allowedRoles: UserRole[]) => {
             return;
         }
 
-        if (!allowedRoles.includes(authReq.user.role)) {
+        if (!hasAllPermissions(authReq.user.role, permissions)) {
             apiResponse.forbidden(res, 'You do not have permission to access this resource');
             return;
         }
@@ -93,10 +108,8 @@ export const optionalAuth = async (
 
 export async function verifySocketToken(token: string): Promise<IJWTPayload> {
     try {
-        const decoded = jwt.verify(
-            token,
-            process.env.JWT_ACCESS_SECRET!
-        );
+        // Same issuer/audience checks as REST, so 2FA challenge tokens can't open a socket
+        const decoded = jwtService.verifyAccessToken(token);
 
         if (typeof decoded === 'object' && decoded !== null && 'userId' in decoded) {
             const userId = (decoded as any).userId as string;
@@ -107,10 +120,17 @@ export async function verifySocketToken(token: string): Promise<IJWTPayload> {
                 throw new Error('User not found or inactive');
             }
 
+            const deviceId = (decoded as any).deviceId as string | undefined;
+
+            if (!(await jwtService.isDeviceActive(userId, deviceId))) {
+                throw new Error('Session has been revoked');
+            }
+
             return {
                 userId: user._id,
                 email: user.email,
-                role: user.role
+                role: user.role,
+                deviceId
             };
         } else {
             throw new Error('Invalid token payload');
@@ -113,6 +113,29 @@ export const passwordResetRateLimiter = rateLimit({
     },
 });
 
+/**
+ * Rate Limiter for Passwordless Sign-in Emails
+ * Keyed by email so one inbox can't be flooded with links or codes
+ */
+export const passwordlessRateLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 5, // 5 emails per 15 minutes
+    message: 'Too many sign-in email requests',
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req: Request) => {
+        const email = req.body?.email;
+        return email ? `passwordless-${String(email).toLowerCase()}` : `passwordless-ip-${req.ip}`;
+    },
+    handler: (_req: Request, res: Response) => {
+        apiResponse.error(
+            res,
+            'Too many sign-in email requests. Please try again later.',
+            429
+        );
+    },
+});
+
 /**
  * General API Rate Limiter
  * For all other endpoints
@@ -0,0 +1,85 @@
+// src/models/AuditLog.ts
+import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole } from '@/types';
+
+export enum AuditAction {
+    LOGIN = 'auth.login',
+    LOGIN_FAILED = 'auth.login_failed',
+    LOGOUT = 'auth.logout',
+    LOGOUT_ALL = 'auth.logout_all',
+    PASSWORD_CHANGE = 'auth.password_change',
+    PASSWORD_RESET = 'auth.password_reset',
+    TWO_FACTOR_ENABLE = 'auth.2fa_enable',
+    TWO_FACTOR_DISABLE = 'auth.2fa_disable',
+    IDENTITY_LINK = 'auth.identity_link',
+    IDENTITY_UNLINK = 'auth.identity_unlink',
+    TOKEN_REVOKE = 'auth.token_revoke',
+    TOKEN_REUSE = 'auth.token_reuse',
+    ROLE_CHANGE = 'admin.role_change',
+    USER_DEACTIVATE = 'admin.user_deactivate',
+    USER_REACTIVATE = 'admin.user_reactivate',
+    USER_FORCE_LOGOUT = 'admin.user_force_logout',
+    DATA_EXPORT_REQUEST = 'account.data_export_request',
+    DATA_EXPORT_DOWNLOAD = 'account.data_export_download',
+    ACCOUNT_DELETE_REQUEST = 'account.delete_request',
+    ACCOUNT_DELETE_CANCEL = 'account.delete_cancel',
+    ACCOUNT_PURGE = 'account.purge',
+    MESSAGE_DELETE = 'message.delete',
+    // Someone other than the owner opened a session (admins with session:read_any)
+    SESSION_ACCESS = 'session.access_other',
+}
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface IAuditLog extends Document {
+    action: AuditAction;
+    outcome: AuditOutcome;
+    // Absent for events with no known account, e.g. a login attempt for an unknown email
+    actorId?: mongoose.Types.ObjectId;
+    actorEmail?: string;
+    actorRole?: UserRole;
+    // Whose account or data the event concerns, when that's not the actor
+    targetUserId?: mongoose.Types.ObjectId;
+    targetType?: 'user' | 'session' | 'message' | 'token' | 'export';
+    targetId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, unknown>;
+    createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+    {
+        action: {
+            type: String,
+            enum: Object.values(AuditAction),
+            required: true
+        },
+        outcome: {
+            type: String,
+            enum: ['success', 'failure'],
+            default: 'success'
+        },
+        actorId: { type: Schema.Types.ObjectId, ref: 'User' },
+        actorEmail: { type: String, lowercase: true, trim: true },
+        actorRole: { type: String, enum: Object.values(UserRole) },
+        targetUserId: { type: Schema.Types.ObjectId, ref: 'User' },
+        targetType: {
+            type: String,
+            enum: ['user', 'session', 'message', 'token', 'export']
+        },
+        targetId: String,
+        ipAddress: String,
+        userAgent: String,
+        metadata: Schema.Types.Mixed
+    },
+    // Entries are append-only
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+AuditLogSchema.index({ targetUserId: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
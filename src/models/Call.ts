@@ -0,0 +1,60 @@
+// src/models/Call.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+// ringing → accepted → ended, or ringing → rejected | missed
+export type CallStatus = 'ringing' | 'accepted' | 'rejected' | 'ended' | 'missed';
+
+export type CallEndReason = 'hangup' | 'cancelled' | 'rejected' | 'timeout' | 'disconnect';
+
+export const ACTIVE_CALL_STATUSES: CallStatus[] = ['ringing', 'accepted'];
+
+export interface ICall extends Document {
+    callId: string;
+    // Session.sessionId the call was placed from
+    sessionId: string;
+    callerId: mongoose.Types.ObjectId;
+    calleeId: mongoose.Types.ObjectId;
+    status: CallStatus;
+    answeredAt?: Date;
+    endedAt?: Date;
+    endedBy?: mongoose.Types.ObjectId;
+    endReason?: CallEndReason;
+    // Time between answer and hang-up
+    durationMs?: number;
+    // [callerId, calleeId] while ringing or accepted, removed when the call finishes.
+    // Its unique index keeps anyone from being in two active calls at once.
+    activeParticipants?: mongoose.Types.ObjectId[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CallSchema = new Schema<ICall>(
+    {
+        callId: { type: String, required: true, unique: true },
+        sessionId: { type: String, required: true },
+        callerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        calleeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        status: {
+            type: String,
+            enum: ['ringing', 'accepted', 'rejected', 'ended', 'missed'],
+            default: 'ringing'
+        },
+        answeredAt: Date,
+        endedAt: Date,
+        endedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        endReason: {
+            type: String,
+            enum: ['hangup', 'cancelled', 'rejected', 'timeout', 'disconnect']
+        },
+        durationMs: Number,
+        activeParticipants: { type: [Schema.Types.ObjectId], default: undefined }
+    },
+    { timestamps: true }
+);
+
+CallSchema.index({ sessionId: 1, createdAt: -1 });
+CallSchema.index({ callerId: 1, status: 1 });
+CallSchema.index({ calleeId: 1, status: 1 });
+CallSchema.index({ activeParticipants: 1 }, { unique: true, sparse: true });
+
+export default mongoose.model<ICall>('Call', CallSchema);
@@ -0,0 +1,43 @@
+// src/models/DataExport.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'expired';
+
+export interface IDataExport extends Document {
+    userId: mongoose.Types.ObjectId;
+    status: DataExportStatus;
+    fileName?: string;
+    size?: number;
+    // Hash of the token in the emailed download link
+    downloadTokenHash?: string;
+    expiresAt?: Date;
+    completedAt?: Date;
+    downloadedAt?: Date;
+    error?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const DataExportSchema = new Schema<IDataExport>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        status: {
+            type: String,
+            enum: ['pending', 'processing', 'ready', 'failed', 'expired'],
+            default: 'pending'
+        },
+        fileName: String,
+        size: Number,
+        downloadTokenHash: { type: String, select: false },
+        expiresAt: Date,
+        completedAt: Date,
+        downloadedAt: Date,
+        error: String
+    },
+    { timestamps: true }
+);
+
+DataExportSchema.index({ userId: 1, createdAt: -1 });
+DataExportSchema.index({ status: 1, expiresAt: 1 });
+
+export default mongoose.model<IDataExport>('DataExport', DataExportSchema);
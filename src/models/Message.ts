@@ -2,17 +2,46 @@
 // src/models/Message.ts
 import mongoose, { Schema, Document } from 'mongoose';
 
+// Recorded for user messages that came in as speech
+export interface IMessageAudio {
+    format: string;
+    size: number;
+    durationMs?: number;
+    language?: string;
+    // Where the original recording is kept, if it was stored
+    storageKey?: string;
+}
+
+// Synthesised speech stored for an assistant reply
+export interface IMessageSpeech {
+    format: string;
+    size: number;
+    durationMs?: number;
+    fileName: string;
+}
+
 // Base interface for message data structure (without _id for Mongoose compatibility)
 interface IMessageBase {
     sessionId: mongoose.Types.ObjectId;
     userId: mongoose.Types.ObjectId;
     role: 'user' | 'assistant' | 'system';
     content: string;
+    // Previous message in the thread; siblings sharing a parent are alternative versions
+    parentId?: mongoose.Types.ObjectId | null;
+    version?: number;
+    // Whether the message is on the session's active branch
+    isActive?: boolean;
     metadata?: {
         latency?: number;
         llmModel?: string;
         tokens?: number;
         confidence?: number;
+        truncated?: boolean;
+        isSummary?: boolean;
+        summarizedCount?: number;
+        inputMode?: 'text' | 'voice';
+        audio?: IMessageAudio;
+        speech?: IMessageSpeech;
     };
 }
 
@@ -39,11 +68,43 @@ const MessageSchema = new Schema<IMessage>(
             required: true
         },
         content: { type: String, required: true },
+        parentId: { type: Schema.Types.ObjectId, ref: 'Message', default: null },
+        version: { type: Number, default: 1 },
+        isActive: { type: Boolean, default: true },
         metadata: {
             latency: Number,
             llmModel: String,
             tokens: Number,
-            confidence: Number
+            confidence: Number,
+            truncated: Boolean,
+            isSummary: Boolean,
+            summarizedCount: Number,
+            inputMode: { type: String, enum: ['text', 'voice'] },
+            audio: {
+                type: new Schema<IMessageAudio>(
+                    {
+                        format: { type: String, required: true },
+                        size: { type: Number, required: true },
+                        durationMs: Number,
+                        language: String,
+                        storageKey: String
+                    },
+                    { _id: false }
+                ),
+                default: undefined
+            },
+            speech: {
+                type: new Schema<IMessageSpeech>(
+                    {
+                        format: { type: String, required: true },
+                        size: { type: Number, required: true },
+                        durationMs: Number,
+                        fileName: { type: String, required: true }
+                    },
+                    { _id: false }
+                ),
+                default: undefined
+            }
         }
     },
     { timestamps: true }
@@ -54,5 +115,6 @@ MessageSchema.index({ sessionId: 1, createdAt: -1 });
 MessageSchema.index({ userId: 1, createdAt: -1 });
 MessageSchema.index({ content: 'text' });
 MessageSchema.index({ userId: 1, sessionId: 1, createdAt: -1 });
+MessageSchema.index({ sessionId: 1, parentId: 1, role: 1 });
 
 export default mongoose.model<IMessage>('Message', MessageSchema);
\ No newline at end of file
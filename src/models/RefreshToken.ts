@@ -3,6 +3,8 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 import { IRefreshToken } from '@/types';
 
 export interface IRefreshTokenDocument extends Omit<IRefreshToken, '_id'>, Document {
+    // Set when the token is rotated; presenting it again means it was stolen
+    replacedBy?: mongoose.Types.ObjectId;
     isExpired(): boolean;
 }
 
@@ -36,6 +38,17 @@ const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
             type: String,
             required: true,
         },
+        // Tokens issued before device tracking have none
+        deviceId: {
+            type: String,
+        },
+        location: {
+            type: String,
+        },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now,
+        },
         expiresAt: {
             type: Date,
             required: true,
@@ -46,6 +59,13 @@ const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
             default: false,
             index: true, // ✅ Index for filtering active tokens
         },
+        revokedAt: {
+            type: Date,
+        },
+        replacedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'RefreshToken',
+        },
     },
     {
         timestamps: true,
@@ -55,6 +75,7 @@ const refreshTokenSchema = new Schema<IRefreshTokenDocument>(
 // ✅ Compound index for efficient queries
 refreshTokenSchema.index({ userId: 1, isRevoked: 1, expiresAt: 1 });
 refreshTokenSchema.index({ token: 1, isRevoked: 1 }); // For findByToken optimization
+refreshTokenSchema.index({ userId: 1, deviceId: 1, isRevoked: 1 });
 
 // ✅ Instance method to check if token is expired
 refreshTokenSchema.methods.isExpired = function (): boolean {
@@ -81,7 +102,7 @@ refreshTokenSchema.statics.revokeToken = async function (
     session?: mongoose.ClientSession
 ): Promise<void> {
     const updateOptions = session ? { session } : {};
-    await this.updateOne({ token }, { isRevoked: true }, updateOptions);
+    await this.updateOne({ token }, { isRevoked: true, revokedAt: new Date() }, updateOptions);
 };
 
 // ✅ Static method with session support
@@ -90,7 +111,7 @@ refreshTokenSchema.statics.revokeAllUserTokens = async function (
     session?: mongoose.ClientSession
 ): Promise<void> {
     const updateOptions = session ? { session } : {};
-    await this.updateMany({ userId, isRevoked: false }, { isRevoked: true }, updateOptions);
+    await this.updateMany({ userId, isRevoked: false }, { isRevoked: true, revokedAt: new Date() }, updateOptions);
 };
 
 // ✅ Cleanup method (no session needed - runs as background job)
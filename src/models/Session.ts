@@ -1,11 +1,27 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface ITutorConfig {
+    subject?: string;
+    gradeLevel?: string;
+    teachingStyle: 'socratic' | 'direct';
+    language: string;
+    systemPrompt?: string;
+    allowedTools?: string[];
+    // Speak assistant replies aloud
+    voiceMode?: boolean;
+}
+
 export interface ISession extends Document {
     userId: mongoose.Types.ObjectId;
     sessionId: string;
     status: 'active' | 'paused' | 'ended';
     contextWindow: {
-        messages: Array<{ role: 'user' | 'assistant'; content: string; timestamp: Date }>;
+        messages: Array<{
+            role: 'user' | 'assistant' | 'system';
+            content: string;
+            timestamp: Date;
+            isSummary?: boolean;
+        }>;
         maxTokens: number;
     };
     metadata: {
@@ -14,6 +30,8 @@ export interface ISession extends Document {
         messageCount: number;
         topic?: string;
     };
+    tutorConfig: ITutorConfig;
+    templateId?: mongoose.Types.ObjectId;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -30,9 +48,11 @@ const SessionSchema = new Schema<ISession>(
         contextWindow: {
             messages: [
                 {
-                    role: { type: String, enum: ['user', 'assistant'], required: true },
+                    role: { type: String, enum: ['user', 'assistant', 'system'], required: true },
                     content: { type: String, required: true },
                     timestamp: { type: Date, default: Date.now },
+                    // Rolling summary of older turns, always kept first in the window
+                    isSummary: Boolean,
                 },
             ],
             maxTokens: { type: Number, default: 4000 },
@@ -43,6 +63,20 @@ const SessionSchema = new Schema<ISession>(
             messageCount: { type: Number, default: 0 },
             topic: String,
         },
+        tutorConfig: {
+            subject: { type: String, trim: true },
+            gradeLevel: { type: String, trim: true },
+            teachingStyle: {
+                type: String,
+                enum: ['socratic', 'direct'],
+                default: 'socratic',
+            },
+            language: { type: String, default: 'en', trim: true },
+            systemPrompt: String,
+            allowedTools: { type: [String], default: undefined },
+            voiceMode: { type: Boolean, default: false },
+        },
+        templateId: { type: Schema.Types.ObjectId, ref: 'TutorTemplate' },
     },
     { timestamps: true }
 );
@@ -0,0 +1,45 @@
+// src/models/TutorTemplate.ts
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITutorTemplate extends Document {
+    name: string;
+    description?: string;
+    subject: string;
+    gradeLevel?: string;
+    teachingStyle: 'socratic' | 'direct';
+    language: string;
+    systemPrompt: string;
+    starterQuestions: string[];
+    allowedTools: string[];
+    createdBy: mongoose.Types.ObjectId;
+    // Published templates can be used by anyone to start a session
+    isPublished: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const TutorTemplateSchema = new Schema<ITutorTemplate>(
+    {
+        name: { type: String, required: true, trim: true, maxlength: 100 },
+        description: { type: String, trim: true, maxlength: 1000 },
+        subject: { type: String, required: true, trim: true },
+        gradeLevel: { type: String, trim: true },
+        teachingStyle: {
+            type: String,
+            enum: ['socratic', 'direct'],
+            default: 'socratic'
+        },
+        language: { type: String, default: 'en', trim: true },
+        systemPrompt: { type: String, required: true },
+        starterQuestions: { type: [String], default: [] },
+        allowedTools: { type: [String], default: [] },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        isPublished: { type: Boolean, default: false }
+    },
+    { timestamps: true }
+);
+
+TutorTemplateSchema.index({ createdBy: 1, updatedAt: -1 });
+TutorTemplateSchema.index({ isPublished: 1, subject: 1 });
+
+export default mongoose.model<ITutorTemplate>('TutorTemplate', TutorTemplateSchema);
@@ -34,11 +34,25 @@ const userSchema = new Schema<IUserDocument>(
             select: false,
             minlength: [8, 'Password must be at least 8 characters'],
         },
+        // Legacy: moved into identities on the user's next Google sign-in
         googleId: {
             type: String,
             sparse: true,
             unique: true,
         },
+        // External logins (Google, Microsoft, GitHub, OIDC) linked to this account
+        identities: {
+            type: [
+                {
+                    _id: false,
+                    provider: { type: String, required: true },
+                    providerId: { type: String, required: true },
+                    email: { type: String, lowercase: true, trim: true },
+                    linkedAt: { type: Date, default: Date.now },
+                },
+            ],
+            default: [],
+        },
         role: {
             type: String,
             enum: Object.values(UserRole),
@@ -53,6 +67,19 @@ const userSchema = new Schema<IUserDocument>(
             type: Boolean,
             default: true,
         },
+        deactivatedAt: {
+            type: Date,
+        },
+        deactivationReason: {
+            type: String,
+            trim: true,
+        },
+        deletionRequestedAt: {
+            type: Date,
+        },
+        deletionScheduledFor: {
+            type: Date,
+        },
         verificationToken: {
             type: String,
             select: false,
@@ -72,6 +99,51 @@ const userSchema = new Schema<IUserDocument>(
         profileImage: {
             type: String,
         },
+        twoFactorEnabled: {
+            type: Boolean,
+            default: false,
+        },
+        // Encrypted TOTP secret, see utils/totp
+        twoFactorSecret: {
+            type: String,
+            select: false,
+        },
+        // Secret issued at setup, promoted to twoFactorSecret once a code is confirmed
+        twoFactorPendingSecret: {
+            type: String,
+            select: false,
+        },
+        // SHA-256 hashes of unused recovery codes
+        twoFactorRecoveryCodes: {
+            type: [String],
+            select: false,
+        },
+        // Last accepted TOTP time step, so a code can't be replayed
+        twoFactorLastUsedStep: {
+            type: Number,
+            select: false,
+        },
+        // Passwordless login: only hashes are stored, never the token or code itself
+        magicLinkTokenHash: {
+            type: String,
+            select: false,
+        },
+        magicLinkExpires: {
+            type: Date,
+            select: false,
+        },
+        loginOtpHash: {
+            type: String,
+            select: false,
+        },
+        loginOtpExpires: {
+            type: Date,
+            select: false,
+        },
+        loginOtpAttempts: {
+            type: Number,
+            select: false,
+        },
     },
     {
         timestamps: true,
@@ -85,6 +157,16 @@ const userSchema = new Schema<IUserDocument>(
     }
 );
 
+userSchema.index({ magicLinkTokenHash: 1 }, { sparse: true });
+userSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+userSchema.index(
+    { 'identities.provider': 1, 'identities.providerId': 1 },
+    {
+        unique: true,
+        partialFilterExpression: { 'identities.providerId': { $exists: true } },
+    }
+);
+
 userSchema.pre('save', async function (next) {
     if (!this.isModified('password')) return next();
 
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import adminController from '@/controllers/adminController';
+import { authenticate, authorize } from '@/middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validationMiddleware';
+import { Permission } from '@/config/permissions';
+import {
+    userIdParamsSchema,
+    listUsersQuerySchema,
+    updateUserRoleSchema,
+    deactivateUserSchema,
+    listAuditLogsQuerySchema,
+} from '@/validators/adminValidator';
+
+const router = Router();
+
+// ========================================
+// All admin routes require user management rights
+// ========================================
+router.use(authenticate, authorize(Permission.USER_MANAGE));
+
+// ========================================
+// User Management
+// ========================================
+router.get('/users', validateQuery(listUsersQuerySchema), adminController.listUsers);
+
+router.get('/users/:userId', validateParams(userIdParamsSchema), adminController.getUser);
+
+router.patch(
+    '/users/:userId/role',
+    validateParams(userIdParamsSchema),
+    validateBody(updateUserRoleSchema),
+    adminController.updateRole
+);
+
+router.post(
+    '/users/:userId/deactivate',
+    validateParams(userIdParamsSchema),
+    validateBody(deactivateUserSchema),
+    adminController.deactivateUser
+);
+
+router.post(
+    '/users/:userId/reactivate',
+    validateParams(userIdParamsSchema),
+    adminController.reactivateUser
+);
+
+router.post(
+    '/users/:userId/logout',
+    validateParams(userIdParamsSchema),
+    adminController.forceLogout
+);
+
+// ========================================
+// Audit Log
+// ========================================
+router.get('/audit', validateQuery(listAuditLogsQuerySchema), adminController.listAuditLogs);
+
+export default router;
@@ -4,16 +4,27 @@ import {
     signupSchema,
     updateProfileSchema,
     changePasswordSchema,
+    twoFactorSetupSchema,
+    twoFactorEnableSchema,
+    twoFactorVerifySchema,
+    twoFactorCodeSchema,
+    emailOnlySchema,
+    magicLinkVerifySchema,
+    loginCodeVerifySchema,
+    credentialConfirmationSchema,
+    dataExportDownloadParamsSchema,
+    dataExportDownloadQuerySchema,
 } from '@/validators/authValidator';
 import {
     authRateLimiter,
     passwordResetRateLimiter,
+    passwordlessRateLimiter,
     sensitiveOperationRateLimiter
 } from '@/middlewares/securityMiddleware';
 import authController from '@/controllers/authController';
-import { validateBody } from '@/middlewares/validationMiddleware';
-import googleAuthController from '@/controllers/googleAuthController';
-import { authenticate } from '@/middlewares/authMiddleware';
+import { validateBody, validateParams, validateQuery } from '@/middlewares/validationMiddleware';
+import oauthController from '@/controllers/oauthController';
+import { authenticate, optionalAuth } from '@/middlewares/authMiddleware';
 
 const router = Router();
 
@@ -34,6 +45,37 @@ router.post(
     authController.login
 );
 
+// ========================================
+// Passwordless Login
+// ========================================
+router.post(
+    '/magic-link',
+    passwordlessRateLimiter,
+    validateBody(emailOnlySchema),
+    authController.requestMagicLink
+);
+
+router.post(
+    '/magic-link/verify',
+    authRateLimiter,
+    validateBody(magicLinkVerifySchema),
+    authController.verifyMagicLink
+);
+
+router.post(
+    '/otp',
+    passwordlessRateLimiter,
+    validateBody(emailOnlySchema),
+    authController.requestLoginCode
+);
+
+router.post(
+    '/otp/verify',
+    authRateLimiter,
+    validateBody(loginCodeVerifySchema),
+    authController.verifyLoginCode
+);
+
 // Refresh token - slightly less strict (users need this frequently)
 router.post('/refresh', authController.refreshToken);
 
@@ -62,16 +104,108 @@ router.post(
 );
 
 // ========================================
-// Google OAuth Routes (no rate limit - handled by Google)
+// Two-Factor Authentication
+// Setup and enable also accept an enrolment challenge token mid-login
 // ========================================
-router.get('/google', googleAuthController.googleAuth);
-router.get('/google/callback', googleAuthController.googleCallback);
+router.post(
+    '/2fa/verify',
+    authRateLimiter,
+    validateBody(twoFactorVerifySchema),
+    authController.verifyTwoFactor
+);
+
+router.post(
+    '/2fa/setup',
+    authRateLimiter,
+    optionalAuth,
+    validateBody(twoFactorSetupSchema),
+    authController.setupTwoFactor
+);
+
+router.post(
+    '/2fa/enable',
+    authRateLimiter,
+    optionalAuth,
+    validateBody(twoFactorEnableSchema),
+    authController.enableTwoFactor
+);
+
+router.get('/2fa', authenticate, authController.getTwoFactorStatus);
+
+router.post(
+    '/2fa/disable',
+    authenticate,
+    sensitiveOperationRateLimiter,
+    validateBody(twoFactorCodeSchema),
+    authController.disableTwoFactor
+);
+
+router.post(
+    '/2fa/recovery-codes',
+    authenticate,
+    sensitiveOperationRateLimiter,
+    validateBody(twoFactorCodeSchema),
+    authController.regenerateRecoveryCodes
+);
+
+// ========================================
+// OAuth / OIDC Routes (no rate limit - handled by the provider)
+// ========================================
+router.get('/oauth/providers', oauthController.listProviders);
+// optionalAuth: a ?link= request must come from the account it links to
+router.get('/oauth/:provider', optionalAuth, oauthController.authenticate());
+router.get('/oauth/:provider/callback', oauthController.callback());
+
+// Original Google URLs, kept so existing redirect URIs keep working
+router.get('/google', optionalAuth, oauthController.authenticate('google'));
+router.get('/google/callback', oauthController.callback('google'));
+
+// Emailed data export link; the token in the link authorizes the download
+router.get(
+    '/export/:exportId/download',
+    validateParams(dataExportDownloadParamsSchema),
+    validateQuery(dataExportDownloadQuerySchema),
+    authController.downloadDataExport
+);
 
 // ========================================
 // Protected Routes (require authentication)
 // ========================================
 router.post('/logout', authenticate, authController.logout);
 
+// Self-service account deletion (grace period, then purge)
+router.delete(
+    '/account',
+    authenticate,
+    sensitiveOperationRateLimiter,
+    validateBody(credentialConfirmationSchema),
+    authController.deleteAccount
+);
+
+// Personal data export
+router.post('/export', authenticate, sensitiveOperationRateLimiter, authController.requestDataExport);
+
+router.get('/export', authenticate, authController.getDataExportStatus);
+
+// Linked sign-in methods
+router.get('/link', authenticate, oauthController.getLinkedAccounts);
+
+router.post(
+    '/link/:provider',
+    authenticate,
+    sensitiveOperationRateLimiter,
+    validateBody(credentialConfirmationSchema),
+    oauthController.startLink
+);
+
+router.delete(
+    '/link/:provider',
+    authenticate,
+    sensitiveOperationRateLimiter,
+    validateBody(credentialConfirmationSchema),
+    oauthController.unlink
+);
+
 router.post('/logout-all', authenticate, authController.logoutAll);
 
 router.get('/profile', authenticate, authController.getProfile);
@@ -92,6 +226,11 @@ router.put(
     authController.changePassword
 );
 
+// Device sessions
+router.get('/sessions', authenticate, authController.getSessions);
+
+router.delete('/sessions/:id', authenticate, authController.revokeSession);
+
 // Auth verification - no rate limit (needed frequently)
 router.get('/verify', authenticate, authController.verifyAuth);
 
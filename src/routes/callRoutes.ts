@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import callController from '@/controllers/callController';
+import { authenticate, authorize } from '@/middlewares/authMiddleware';
+import { validateQuery } from '@/middlewares/validationMiddleware';
+import { Permission } from '@/config/permissions';
+import { listCallsQuerySchema } from '@/validators/callValidator';
+
+const router = Router();
+
+// ========================================
+// All call routes require calling rights
+// ========================================
+router.use(authenticate, authorize(Permission.CALL_START));
+
+router.get('/', validateQuery(listCallsQuerySchema), callController.listCalls);
+
+router.get('/rtc-config', callController.getRTCConfig);
+
+export default router;
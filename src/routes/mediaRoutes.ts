@@ -0,0 +1,40 @@
+// src/routes/mediaRoutes.ts
+import { Router, Request, Response } from 'express';
+import storage, { LocalStorageDriver } from '@/services/storage';
+import logger from '@/config/logger';
+
+const router = Router();
+
+// Target of signed URLs from the local storage driver. The signature is the
+// authorization, so there is no session or token check here.
+router.get('/', (req: Request, res: Response): Response | void => {
+    if (!(storage instanceof LocalStorageDriver)) {
+        return res.status(404).json({
+            success: false,
+            message: 'Not found'
+        });
+    }
+
+    const { key, expires, signature } = req.query;
+    const filePath = storage.verifySignedRequest(key, expires, signature);
+
+    if (!filePath) {
+        return res.status(403).json({
+            success: false,
+            message: 'Link is invalid or has expired'
+        });
+    }
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.sendFile(filePath, (error) => {
+        if (error && !res.headersSent) {
+            logger.warn('Media file not served:', { key, error: error.message });
+            res.status(404).json({
+                success: false,
+                message: 'Not found'
+            });
+        }
+    });
+});
+
+export default router;
@@ -1,32 +1,83 @@
 // src/routes/message.routes.ts
 import { Router } from 'express';
-import { authenticate } from '@/middlewares/authMiddleware';
+import { z } from 'zod';
+import { authenticate, authorize } from '@/middlewares/authMiddleware';
+import { validateRequest } from '@/middlewares/validationMiddleware';
+import { Permission } from '@/config/permissions';
 import { MessageController } from '@/controllers/messageController';
 
 const router = Router();
 const messageController = new MessageController();
 
+// Validation schemas
+const editMessageSchema = z.object({
+    body: z.object({
+        content: z.string().trim().min(1).max(5000)
+    })
+});
+
 // All routes require authentication
 router.use(authenticate);
 
 // Routes
 router.get(
     '/session/:sessionId',
+    authorize(Permission.MESSAGE_READ),
     messageController.getSessionMessages.bind(messageController)
 );
 
 router.get(
     '/search',
+    authorize(Permission.MESSAGE_READ),
     messageController.searchMessages.bind(messageController)
 );
 
 router.get(
     '/:messageId',
+    authorize(Permission.MESSAGE_READ),
     messageController.getMessage.bind(messageController)
 );
 
+router.get(
+    '/:messageId/audio',
+    authorize(Permission.MESSAGE_READ),
+    messageController.getMessageAudio.bind(messageController)
+);
+
+router.get(
+    '/:messageId/recording',
+    authorize(Permission.MESSAGE_READ),
+    messageController.getMessageRecording.bind(messageController)
+);
+
+router.get(
+    '/:messageId/versions',
+    authorize(Permission.MESSAGE_READ),
+    messageController.getMessageVersions.bind(messageController)
+);
+
+router.get(
+    '/:messageId/branch',
+    authorize(Permission.MESSAGE_READ),
+    messageController.getMessageBranch.bind(messageController)
+);
+
+router.patch(
+    '/:messageId',
+    authorize(Permission.MESSAGE_EDIT),
+    validateRequest(editMessageSchema),
+    messageController.editMessage.bind(messageController)
+);
+
+router.post(
+    '/:messageId/regenerate',
+    authorize(Permission.MESSAGE_SEND),
+    messageController.regenerateMessage.bind(messageController)
+);
+
 router.delete(
     '/:messageId',
+    authorize(Permission.MESSAGE_DELETE),
     messageController.deleteMessage.bind(messageController)
 );
 
@@ -2,8 +2,10 @@
 import { Router } from 'express';
 import { SessionController } from '@/controllers/sessionController';
 import { z } from 'zod';
-import { authenticate } from '@/middlewares/authMiddleware';
+import { authenticate, authorize } from '@/middlewares/authMiddleware';
 import { validateRequest } from '@/middlewares/validationMiddleware';
+import { Permission } from '@/config/permissions';
+import { tutorConfigSchema } from '@/validators/sessionValidator';
 
 const router = Router();
 const sessionController = new SessionController();
@@ -12,42 +14,64 @@ const sessionController = new SessionController();
 const createSessionSchema = z.object({
     body: z.object({
         topic: z.string().optional(),
-        metadata: z.record(z.any()).optional()
+        metadata: z.record(z.any()).optional(),
+        config: tutorConfigSchema.optional(),
+        templateId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid template ID').optional()
     })
 });
 
+const updateSessionConfigSchema = z.object({
+    body: tutorConfigSchema.refine(
+        config => Object.values(config).some(value => value !== undefined),
+        { message: 'At least one config field is required' }
+    )
+});
+
 // All routes require authentication
 router.use(authenticate);
 
 // Routes
 router.post(
     '/',
+    authorize(Permission.SESSION_CREATE),
     validateRequest(createSessionSchema),
     sessionController.createSession.bind(sessionController)
 );
 
 router.get(
     '/',
+    authorize(Permission.SESSION_READ),
     sessionController.getUserSessions.bind(sessionController)
 );
 
 router.get(
     '/stats',
+    authorize(Permission.SESSION_READ),
     sessionController.getSessionStats.bind(sessionController)
 );
 
 router.get(
     '/:sessionId',
+    authorize(Permission.SESSION_READ),
     sessionController.getSession.bind(sessionController)
 );
 
 router.post(
     '/:sessionId/resume',
+    authorize(Permission.SESSION_UPDATE),
     sessionController.resumeSession.bind(sessionController)
 );
 
+router.post(
+    '/:sessionId/config',
+    authorize(Permission.SESSION_UPDATE),
+    validateRequest(updateSessionConfigSchema),
+    sessionController.updateSessionConfig.bind(sessionController)
+);
+
 router.delete(
     '/:sessionId',
+    authorize(Permission.SESSION_UPDATE),
     sessionController.endSession.bind(sessionController)
 );
 
@@ -0,0 +1,73 @@
+// src/routes/templateRoutes.ts
+import { Router } from 'express';
+import { TemplateController } from '@/controllers/templateController';
+import { z } from 'zod';
+import { authenticate, authorize } from '@/middlewares/authMiddleware';
+import { validateRequest } from '@/middlewares/validationMiddleware';
+import { Permission } from '@/config/permissions';
+
+const router = Router();
+const templateController = new TemplateController();
+
+// Validation schemas
+const templateFields = {
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(1000).optional(),
+    subject: z.string().trim().min(1).max(100),
+    gradeLevel: z.string().trim().max(50).optional(),
+    teachingStyle: z.enum(['socratic', 'direct']).optional(),
+    language: z.string().trim().min(2).max(35).optional(),
+    systemPrompt: z.string().trim().min(1).max(4000),
+    starterQuestions: z.array(z.string().trim().min(1).max(500)).max(20).optional(),
+    allowedTools: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+    isPublished: z.boolean().optional()
+};
+
+const createTemplateSchema = z.object({
+    body: z.object(templateFields)
+});
+
+const updateTemplateSchema = z.object({
+    body: z.object(templateFields).partial().refine(
+        fields => Object.values(fields).some(value => value !== undefined),
+        { message: 'At least one field is required' }
+    )
+});
+
+// Anyone may browse published templates; they are managed by tutors and admins only
+router.use(authenticate);
+
+// Routes
+router.post(
+    '/',
+    authorize(Permission.TEMPLATE_MANAGE),
+    validateRequest(createTemplateSchema),
+    templateController.createTemplate.bind(templateController)
+);
+
+router.get(
+    '/',
+    authorize(Permission.TEMPLATE_READ),
+    templateController.getTemplates.bind(templateController)
+);
+
+router.get(
+    '/:templateId',
+    authorize(Permission.TEMPLATE_READ),
+    templateController.getTemplate.bind(templateController)
+);
+
+router.put(
+    '/:templateId',
+    authorize(Permission.TEMPLATE_MANAGE),
+    validateRequest(updateTemplateSchema),
+    templateController.updateTemplate.bind(templateController)
+);
+
+router.delete(
+    '/:templateId',
+    authorize(Permission.TEMPLATE_MANAGE),
+    templateController.deleteTemplate.bind(templateController)
+);
+
+export default router;
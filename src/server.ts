@@ -13,6 +13,10 @@ import authRoutes from './routes/authRoutes';
 import healthRoutes from './routes/healthRoutes';
 import sessionRoutes from './routes/sessionRoutes';
 import messageRoutes from './routes/messageRoutes';
+import templateRoutes from './routes/templateRoutes';
+import adminRoutes from './routes/adminRoutes';
+import mediaRoutes from './routes/mediaRoutes';
+import callRoutes from './routes/callRoutes';
 import {
     helmetMiddleware,
     corsMiddleware,
@@ -60,6 +64,7 @@ class ServiceProvider {
 
         // Link services together
         this.messageQueue.setSocketManager(this.socketManager);
+        this.socketManager.setMessageQueue(this.messageQueue);
         logger.info('✅ Services linked together');
     }
 
@@ -299,6 +304,10 @@ function setupRoutes(app: Application, serviceProvider: ServiceProvider) {
     app.use('/api/auth', authRoutes);
     app.use('/api/sessions', sessionRoutes);
     app.use('/api/messages', messageRoutes);
+    app.use('/api/templates', templateRoutes);
+    app.use('/api/admin', adminRoutes);
+    app.use('/api/media', mediaRoutes);
+    app.use('/api/calls', callRoutes);
 }
 
 // ============================================================
@@ -0,0 +1,145 @@
+// src/services/accountDeletionService.ts
+import mongoose from 'mongoose';
+import config from '@/config/env';
+import logger from '@/config/logger';
+import User, { IUserDocument } from '@/models/User';
+import Session from '@/models/Session';
+import Message from '@/models/Message';
+import RefreshToken from '@/models/RefreshToken';
+import TutorTemplate from '@/models/TutorTemplate';
+import AuditLog, { AuditAction } from '@/models/AuditLog';
+import jwtService from '@/services/jwtService';
+import auditService from '@/services/auditService';
+import dataExportService from '@/services/dataExportService';
+import speechService from '@/services/speechService';
+import recordingService from '@/services/recordingService';
+import callService from '@/services/callService';
+import { sendAccountDeletionScheduledEmail } from '@/services/mailerService';
+import { SessionCacheService } from '@/services/cache/SessionCacheService';
+
+class AccountDeletionService {
+    private sessionCache: SessionCacheService | null = null;
+
+    /**
+     * Soft-delete: sign the user out everywhere and schedule the purge.
+     * Signing in again before the purge cancels it.
+     */
+    async scheduleDeletion(user: IUserDocument): Promise<Date> {
+        const scheduledFor = new Date(Date.now() + config.accountDeletion.gracePeriodDays * 24 * 60 * 60 * 1000);
+
+        user.deletionRequestedAt = new Date();
+        user.deletionScheduledFor = scheduledFor;
+        await user.save();
+
+        await jwtService.revokeAllUserTokens(String(user._id));
+
+        try {
+            await sendAccountDeletionScheduledEmail(user.email, scheduledFor);
+        } catch (error) {
+            logger.error('Failed to send account deletion email:', error);
+        }
+
+        logger.info(`Account deletion scheduled for user: ${user._id}`, { scheduledFor });
+        return scheduledFor;
+    }
+
+    async cancelDeletion(user: IUserDocument): Promise<void> {
+        user.deletionRequestedAt = undefined;
+        user.deletionScheduledFor = undefined;
+        await user.save();
+
+        await auditService.record({
+            action: AuditAction.ACCOUNT_DELETE_CANCEL,
+            actor: { userId: String(user._id), email: user.email, role: user.role },
+        });
+
+        logger.info(`Account deletion cancelled by sign-in: ${user._id}`);
+    }
+
+    /**
+     * Scheduled job: purge every account whose grace period is over
+     */
+    async purgeDueAccounts(): Promise<number> {
+        const due = await User.find({ deletionScheduledFor: { $lte: new Date() } }).select('_id');
+        let purged = 0;
+
+        for (const { _id } of due) {
+            try {
+                if (await this.purgeAccount(String(_id))) {
+                    purged++;
+                }
+            } catch (error) {
+                // Left scheduled, so the next run retries it
+                logger.error(`❌ Failed to purge account ${_id}:`, error);
+            }
+        }
+
+        if (purged > 0) {
+            logger.info(`🗑️  Purged ${purged} deleted account(s)`);
+        }
+
+        return purged;
+    }
+
+    /**
+     * Hard-delete an account and everything it owns. Audit entries are kept
+     * for compliance, without the email address.
+     */
+    async purgeAccount(userId: string): Promise<boolean> {
+        // Lock the account first so a sign-in can't race the purge
+        const user = await User.findOneAndUpdate(
+            { _id: userId, deletionScheduledFor: { $lte: new Date() } },
+            { isActive: false, deactivatedAt: new Date(), deactivationReason: 'Account deleted' },
+            { new: true }
+        );
+
+        if (!user) {
+            return false;
+        }
+
+        const objectId = new mongoose.Types.ObjectId(userId);
+        const sessions = await Session.find({ userId: objectId }).select('_id sessionId').lean();
+
+        await Message.deleteMany({
+            $or: [{ userId: objectId }, { sessionId: { $in: sessions.map(session => session._id) } }],
+        });
+        await Session.deleteMany({ userId: objectId });
+        await RefreshToken.deleteMany({ userId });
+        await TutorTemplate.deleteMany({ createdBy: objectId });
+        await dataExportService.deleteUserExports(userId);
+        await speechService.removeUserSpeech(userId);
+        await recordingService.removeUserRecordings(userId);
+        await callService.deleteUserCalls(userId);
+
+        const sessionCache = this.getSessionCache();
+        await Promise.all(sessions.map(session => sessionCache.invalidateSession(session.sessionId)));
+        await sessionCache.invalidateUserSessions(userId);
+
+        await AuditLog.updateMany({ actorId: objectId }, { $unset: { actorEmail: 1 } });
+        await User.deleteOne({ _id: objectId });
+
+        await auditService.record({
+            action: AuditAction.ACCOUNT_PURGE,
+            targetUserId: userId,
+            targetType: 'user',
+            targetId: userId,
+            metadata: {
+                sessions: sessions.length,
+                requestedAt: user.deletionRequestedAt,
+            },
+        });
+
+        logger.info(`🗑️  Account purged: ${userId}`);
+        return true;
+    }
+
+    // Created on first purge so the web process doesn't open cache connections it never uses
+    private getSessionCache(): SessionCacheService {
+        if (!this.sessionCache) {
+            this.sessionCache = new SessionCacheService();
+        }
+        return this.sessionCache;
+    }
+}
+
+export default new AccountDeletionService();
@@ -0,0 +1,107 @@
+// src/services/auditService.ts
+import { Request } from 'express';
+import logger from '@/config/logger';
+import AuditLog, { AuditAction, AuditOutcome, IAuditLog } from '@/models/AuditLog';
+import { AuthRequest, UserRole } from '@/types';
+
+export interface AuditActor {
+    userId?: string;
+    email?: string;
+    role?: UserRole;
+}
+
+export interface AuditEntry {
+    action: AuditAction;
+    outcome?: AuditOutcome;
+    actor?: AuditActor;
+    targetUserId?: string;
+    targetType?: IAuditLog['targetType'];
+    targetId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+    actorId?: string;
+    targetUserId?: string;
+    action?: AuditAction;
+    outcome?: AuditOutcome;
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+}
+
+class AuditService {
+    /**
+     * Persist an audit entry. Never throws: a failed write is logged
+     * rather than failing the operation being audited.
+     */
+    async record(entry: AuditEntry): Promise<void> {
+        try {
+            await AuditLog.create({
+                action: entry.action,
+                outcome: entry.outcome || 'success',
+                actorId: entry.actor?.userId,
+                actorEmail: entry.actor?.email,
+                actorRole: entry.actor?.role,
+                targetUserId: entry.targetUserId,
+                targetType: entry.targetType,
+                targetId: entry.targetId,
+                ipAddress: entry.ipAddress,
+                userAgent: entry.userAgent,
+                metadata: entry.metadata,
+            });
+        } catch (error) {
+            logger.error(`Failed to write audit log for ${entry.action}:`, error);
+        }
+    }
+
+    /**
+     * Record an event for an HTTP request; the actor defaults to the authenticated user
+     */
+    async recordRequest(
+        req: Request,
+        action: AuditAction,
+        details: Omit<AuditEntry, 'action' | 'ipAddress' | 'userAgent'> = {}
+    ): Promise<void> {
+        const user = (req as AuthRequest).user;
+
+        await this.record({
+            ...details,
+            action,
+            actor: details.actor || (user && { userId: user.userId, email: user.email, role: user.role }),
+            ipAddress: req.ip,
+            userAgent: req.headers['user-agent'],
+        });
+    }
+
+    async list(filters: AuditLogFilters) {
+        const query: Record<string, any> = {};
+
+        if (filters.actorId) query.actorId = filters.actorId;
+        if (filters.targetUserId) query.targetUserId = filters.targetUserId;
+        if (filters.action) query.action = filters.action;
+        if (filters.outcome) query.outcome = filters.outcome;
+
+        if (filters.from || filters.to) {
+            query.createdAt = {};
+            if (filters.from) query.createdAt.$gte = filters.from;
+            if (filters.to) query.createdAt.$lte = filters.to;
+        }
+
+        const [entries, total] = await Promise.all([
+            AuditLog.find(query)
+                .sort({ createdAt: -1 })
+                .skip((filters.page - 1) * filters.limit)
+                .limit(filters.limit)
+                .lean(),
+            AuditLog.countDocuments(query),
+        ]);
+
+        return { entries, total };
+    }
+}
+
+export default new AuditService();
@@ -5,6 +5,7 @@ import SessionService from '../session/SessionService';
 import logger from '@/config/logger';
 import { ISession } from '@/models/Session';
 import mongoose from 'mongoose';
+import tokenizer from '@/utils/tokenizer';
 
 interface CachedSession {
     sessionId: string;
@@ -12,6 +13,7 @@ interface CachedSession {
     status: string;
     contextWindow: any;
     metadata: any;
+    tutorConfig?: any;
     cachedAt: number;
 }
 
@@ -21,6 +23,7 @@ export class SessionCacheService {
     private sessionService: SessionService;
     private readonly REDIS_TTL = 3600; // 1 hour
     private readonly MEMORY_TTL = 300000; // 5 minutes
+    private readonly DEFAULT_MAX_TOKENS = 4000;
 
     constructor() {
         // ✅ Calculate max cache size based on available memory
@@ -123,6 +126,7 @@ export class SessionCacheService {
                 status: session.status,
                 contextWindow: session.contextWindow,
                 metadata: session.metadata,
+                tutorConfig: session.tutorConfig,
                 cachedAt: Date.now()
             };
 
@@ -168,10 +172,11 @@ export class SessionCacheService {
                 cached.metadata.messageCount = (cached.metadata.messageCount || 0) + 1;
                 cached.cachedAt = Date.now();
 
-                // Keep only last 20 messages in cache
-                if (cached.contextWindow.messages.length > 20) {
-                    cached.contextWindow.messages = cached.contextWindow.messages.slice(-20);
-                }
+                // Keep the cached window inside the session's token budget
+                cached.contextWindow.messages = tokenizer.fitToBudget(
+                    cached.contextWindow.messages,
+                    cached.contextWindow.maxTokens || this.DEFAULT_MAX_TOKENS
+                ).messages;
 
                 this.memoryCache.set(sessionId, cached);
                 logger.debug(`✅ Updated session ${sessionId} context in L1 cache`);
@@ -190,10 +195,11 @@ export class SessionCacheService {
                         redisCached.metadata.lastActivity = new Date();
                         redisCached.metadata.messageCount = (redisCached.metadata.messageCount || 0) + 1;
 
-                        // Keep only last 20 messages
-                        if (redisCached.contextWindow.messages.length > 20) {
-                            redisCached.contextWindow.messages = redisCached.contextWindow.messages.slice(-20);
-                        }
+                        // Keep the cached window inside the session's token budget
+                        redisCached.contextWindow.messages = tokenizer.fitToBudget(
+                            redisCached.contextWindow.messages,
+                            redisCached.contextWindow.maxTokens || this.DEFAULT_MAX_TOKENS
+                        ).messages;
 
                         await this.redisService.cache(
                             `session:${sessionId}`,
@@ -332,7 +338,7 @@ export class SessionCacheService {
             status: cached.status as 'active' | 'paused' | 'ended',
             contextWindow: {
                 messages: cached.contextWindow.messages || [],
-                maxTokens: cached.contextWindow.maxTokens || 4000
+                maxTokens: cached.contextWindow.maxTokens || this.DEFAULT_MAX_TOKENS
             },
             metadata: {
                 startTime: new Date(cached.metadata.startTime),
@@ -340,6 +346,7 @@ export class SessionCacheService {
                 messageCount: cached.metadata.messageCount || 0,
                 topic: cached.metadata.topic
             },
+            tutorConfig: cached.tutorConfig || { teachingStyle: 'socratic', language: 'en' },
             createdAt: new Date(cached.cachedAt),
             updatedAt: new Date(cached.cachedAt)
         } as ISession;
@@ -0,0 +1,221 @@
+// src/services/callService.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import logger from '@/config/logger';
+import { callConfig } from '@/config/webrtc';
+import Call, { ACTIVE_CALL_STATUSES, CallEndReason, ICall } from '@/models/Call';
+
+/**
+ * Call history and state. Every transition is a conditional update on the
+ * current status, so two instances (or two devices) racing on the same call
+ * can't both win.
+ */
+class CallService {
+    /**
+     * Start ringing. Returns null when either user is already in an active call,
+     * even one created a moment ago on another device or instance.
+     */
+    async createCall(sessionId: string, callerId: string, calleeId: string): Promise<ICall | null> {
+        let call: ICall;
+
+        try {
+            call = await Call.create({
+                callId: crypto.randomUUID(),
+                sessionId,
+                callerId,
+                calleeId,
+                status: 'ringing',
+                activeParticipants: [callerId, calleeId]
+            });
+        } catch (error: any) {
+            if (error?.code === 11000) {
+                return null;
+            }
+            throw error;
+        }
+
+        logger.info(`📞 Call ${call.callId} ringing`, { sessionId, callerId, calleeId });
+
+        return call;
+    }
+
+    async getCall(callId: string): Promise<ICall | null> {
+        return Call.findOne({ callId });
+    }
+
+    /**
+     * A ringing or connected call involving any of the users
+     */
+    async findActiveCall(userIds: string[]): Promise<ICall | null> {
+        const calls = await Call.find({
+            status: { $in: ACTIVE_CALL_STATUSES },
+            $or: [{ callerId: { $in: userIds } }, { calleeId: { $in: userIds } }]
+        });
+
+        // A ringing call whose timer was lost (e.g. its instance restarted) is already missed
+        const stale = calls.filter(call => this.isRingingExpired(call));
+        await Promise.all(stale.map(call => this.expire(call.callId)));
+
+        return calls.find(call => !stale.includes(call)) ?? null;
+    }
+
+    async accept(callId: string, calleeId: string): Promise<ICall | null> {
+        return Call.findOneAndUpdate(
+            { callId, calleeId, status: 'ringing' },
+            { $set: { status: 'accepted', answeredAt: new Date() } },
+            { new: true }
+        );
+    }
+
+    async reject(callId: string, calleeId: string): Promise<ICall | null> {
+        return Call.findOneAndUpdate(
+            { callId, calleeId, status: 'ringing' },
+            {
+                $set: { status: 'rejected', endedAt: new Date(), endedBy: calleeId, endReason: 'rejected' },
+                $unset: { activeParticipants: 1 }
+            },
+            { new: true }
+        );
+    }
+
+    /**
+     * Hang up. Before the call is answered this is the caller giving up (missed)
+     * or the callee declining (rejected).
+     */
+    async end(callId: string, userId: string, reason: CallEndReason = 'hangup'): Promise<ICall | null> {
+        const call = await Call.findOne({
+            callId,
+            status: { $in: ACTIVE_CALL_STATUSES },
+            $or: [{ callerId: userId }, { calleeId: userId }]
+        });
+
+        if (!call) {
+            return null;
+        }
+
+        if (call.status === 'ringing') {
+            return call.callerId.toString() === userId
+                ? this.finishRinging(callId, 'missed', reason === 'hangup' ? 'cancelled' : reason, userId)
+                : this.finishRinging(callId, 'rejected', reason === 'hangup' ? 'rejected' : reason, userId);
+        }
+
+        return this.finishAccepted(callId, reason, userId);
+    }
+
+    /**
+     * Ring timeout: nobody answered
+     */
+    async expire(callId: string): Promise<ICall | null> {
+        return this.finishRinging(callId, 'missed', 'timeout');
+    }
+
+    /**
+     * Close calls nobody will close: ringing past the ring timeout, or connected
+     * for longer than the maximum call duration (e.g. both peers vanished while
+     * their instance was down). Returns the calls that were closed.
+     */
+    async sweepStaleCalls(): Promise<ICall[]> {
+        const now = Date.now();
+
+        const stale = await Call.find({
+            $or: [
+                { status: 'ringing', createdAt: { $lt: new Date(now - callConfig.ringTimeoutMs) } },
+                { status: 'accepted', answeredAt: { $lt: new Date(now - callConfig.maxDurationMs) } }
+            ]
+        }).select('callId status');
+
+        const closed = await Promise.all(stale.map(call =>
+            call.status === 'ringing'
+                ? this.expire(call.callId)
+                : this.finishAccepted(call.callId, 'timeout')
+        ));
+
+        return closed.filter((call): call is ICall => call !== null);
+    }
+
+    /**
+     * End everything the user is part of, e.g. when their last connection drops
+     */
+    async endActiveCallsForUser(userId: string, reason: CallEndReason): Promise<ICall[]> {
+        const calls = await Call.find({
+            status: { $in: ACTIVE_CALL_STATUSES },
+            $or: [{ callerId: userId }, { calleeId: userId }]
+        }).select('callId');
+
+        const ended = await Promise.all(calls.map(call => this.end(call.callId, userId, reason)));
+
+        return ended.filter((call): call is ICall => call !== null);
+    }
+
+    async listCalls(
+        userId: string,
+        filters: { sessionId?: string; page: number; limit: number }
+    ): Promise<{ calls: ICall[]; total: number }> {
+        const query: Record<string, any> = {
+            $or: [{ callerId: userId }, { calleeId: userId }]
+        };
+
+        if (filters.sessionId) {
+            query.sessionId = filters.sessionId;
+        }
+
+        const [calls, total] = await Promise.all([
+            Call.find(query)
+                .sort({ createdAt: -1 })
+                .skip((filters.page - 1) * filters.limit)
+                .limit(filters.limit)
+                .populate('callerId', 'name role')
+                .populate('calleeId', 'name role'),
+            Call.countDocuments(query)
+        ]);
+
+        return { calls, total };
+    }
+
+    async deleteUserCalls(userId: string): Promise<void> {
+        await Call.deleteMany({ $or: [{ callerId: userId }, { calleeId: userId }] });
+    }
+
+    private isRingingExpired(call: ICall): boolean {
+        return call.status === 'ringing' && Date.now() - call.createdAt.getTime() > callConfig.ringTimeoutMs;
+    }
+
+    private async finishAccepted(callId: string, reason: CallEndReason, endedBy?: string): Promise<ICall | null> {
+        const now = new Date();
+
+        // Pipeline update so the duration is computed from the stored answer time
+        return Call.findOneAndUpdate(
+            { callId, status: 'accepted' },
+            [{
+                $set: {
+                    status: 'ended',
+                    endedAt: now,
+                    endReason: reason,
+                    durationMs: { $subtract: [now, '$answeredAt'] },
+                    ...(endedBy && { endedBy: new mongoose.Types.ObjectId(endedBy) })
+                }
+            }, {
+                $unset: 'activeParticipants'
+            }],
+            { new: true }
+        );
+    }
+
+    private async finishRinging(
+        callId: string,
+        status: 'missed' | 'rejected',
+        reason: CallEndReason,
+        endedBy?: string
+    ): Promise<ICall | null> {
+        return Call.findOneAndUpdate(
+            { callId, status: 'ringing' },
+            {
+                $set: { status, endedAt: new Date(), endReason: reason, ...(endedBy && { endedBy }) },
+                $unset: { activeParticipants: 1 }
+            },
+            { new: true }
+        );
+    }
+}
+
+export default new CallService();
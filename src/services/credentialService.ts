@@ -0,0 +1,40 @@
+// src/services/credentialService.ts
+import User from '@/models/User';
+import twoFactorService from '@/services/twoFactorService';
+import passwordlessService from '@/services/passwordlessService';
+
+export interface CredentialConfirmation {
+    password?: string;
+    // TOTP or recovery code when 2FA is on, otherwise an emailed sign-in code
+    code?: string;
+}
+
+class CredentialService {
+    /**
+     * Re-check who is at the keyboard before a sensitive account change.
+     * Accepts the account password, or a one-time code for accounts without one.
+     */
+    async confirm(userId: string, { password, code }: CredentialConfirmation): Promise<boolean> {
+        const user = await User.findById(userId).select('+password');
+        if (!user) {
+            return false;
+        }
+
+        if (password && user.password) {
+            return user.comparePassword(password);
+        }
+
+        if (code) {
+            if (user.twoFactorEnabled) {
+                return twoFactorService.verifyCode(userId, code);
+            }
+
+            const verified = await passwordlessService.verifyLoginCode(user.email, code);
+            return !!verified && String(verified._id) === userId;
+        }
+
+        return false;
+    }
+}
+
+export default new CredentialService();
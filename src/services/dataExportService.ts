@@ -0,0 +1,273 @@
+// src/services/dataExportService.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import config from '@/config/env';
+import logger from '@/config/logger';
+import DataExport, { IDataExport } from '@/models/DataExport';
+import User from '@/models/User';
+import Session from '@/models/Session';
+import Message from '@/models/Message';
+import RefreshToken from '@/models/RefreshToken';
+import { sendDataExportReadyEmail } from '@/services/mailerService';
+
+const EXPORT_FORMAT_VERSION = 1;
+
+class DataExportService {
+    private readonly directory = path.resolve(config.dataExport.directory);
+
+    /**
+     * Create an export request, unless one is already running or the user
+     * exported recently. Returns the existing request in that case.
+     */
+    async requestExport(userId: string): Promise<{ dataExport: IDataExport; created: boolean }> {
+        const cooldownStart = new Date(Date.now() - config.dataExport.cooldownHours * 60 * 60 * 1000);
+        const staleBefore = new Date(Date.now() - config.dataExport.staleAfterHours * 60 * 60 * 1000);
+
+        // An export stuck this long lost its job (e.g. a fallback run died with the process)
+        await DataExport.updateMany(
+            { userId, status: { $in: ['pending', 'processing'] }, updatedAt: { $lt: staleBefore } },
+            { $set: { status: 'failed', error: 'Export did not complete' } }
+        );
+
+        const recent = await DataExport.findOne({
+            userId,
+            $or: [
+                { status: { $in: ['pending', 'processing'] } },
+                { status: 'ready', createdAt: { $gte: cooldownStart } },
+            ],
+        }).sort({ createdAt: -1 });
+
+        if (recent) {
+            return { dataExport: recent, created: false };
+        }
+
+        const dataExport = await DataExport.create({ userId, status: 'pending' });
+        return { dataExport, created: true };
+    }
+
+    async getLatestExport(userId: string): Promise<IDataExport | null> {
+        return DataExport.findOne({ userId }).sort({ createdAt: -1 });
+    }
+
+    /**
+     * Queue job: write the archive, then email a download link
+     */
+    async processExport(exportId: string): Promise<void> {
+        const dataExport = await DataExport.findById(exportId);
+        if (!dataExport || !['pending', 'processing', 'failed'].includes(dataExport.status)) {
+            return;
+        }
+
+        const user = await User.findById(dataExport.userId);
+        if (!user) {
+            dataExport.status = 'failed';
+            dataExport.error = 'User not found';
+            await dataExport.save();
+            return;
+        }
+
+        dataExport.status = 'processing';
+        dataExport.error = undefined;
+        await dataExport.save();
+
+        const fileName = `${dataExport._id}.json`;
+        const filePath = path.join(this.directory, fileName);
+
+        try {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await this.writeArchive(String(user._id), filePath);
+
+            const { size } = await fs.promises.stat(filePath);
+            const token = crypto.randomBytes(32).toString('hex');
+            const expiresAt = new Date(Date.now() + config.dataExport.linkExpiryHours * 60 * 60 * 1000);
+
+            dataExport.status = 'ready';
+            dataExport.fileName = fileName;
+            dataExport.size = size;
+            dataExport.downloadTokenHash = this.hash(token);
+            dataExport.expiresAt = expiresAt;
+            dataExport.completedAt = new Date();
+            await dataExport.save();
+
+            const downloadUrl =
+                `${config.apiUrl}/api/auth/export/${dataExport._id}/download?token=${encodeURIComponent(token)}`;
+            await sendDataExportReadyEmail(user.email, downloadUrl, expiresAt);
+
+            logger.info(`📦 Data export ready for user: ${user._id}`, { exportId, size });
+        } catch (error) {
+            dataExport.status = 'failed';
+            dataExport.error = error instanceof Error ? error.message : 'Unknown error';
+            await dataExport.save();
+            await fs.promises.rm(filePath, { force: true });
+            throw error;
+        }
+
+        await this.cleanupExpiredExports();
+    }
+
+    /**
+     * Resolve a download link to the archive on disk, or null if the link is invalid or expired
+     */
+    async resolveDownload(exportId: string, token: string): Promise<{ dataExport: IDataExport; filePath: string } | null> {
+        const dataExport = await DataExport.findById(exportId).select('+downloadTokenHash');
+
+        if (
+            !dataExport ||
+            dataExport.status !== 'ready' ||
+            !dataExport.fileName ||
+            !dataExport.downloadTokenHash ||
+            !dataExport.expiresAt ||
+            dataExport.expiresAt < new Date()
+        ) {
+            return null;
+        }
+
+        const expected = Buffer.from(dataExport.downloadTokenHash);
+        const actual = Buffer.from(this.hash(token));
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        dataExport.downloadedAt = new Date();
+        await dataExport.save();
+
+        return { dataExport, filePath: path.join(this.directory, dataExport.fileName) };
+    }
+
+    /**
+     * Delete archives whose download link has expired
+     */
+    async cleanupExpiredExports(): Promise<number> {
+        const expired = await DataExport.find({ status: 'ready', expiresAt: { $lt: new Date() } });
+
+        for (const dataExport of expired) {
+            if (dataExport.fileName) {
+                await fs.promises.rm(path.join(this.directory, dataExport.fileName), { force: true });
+            }
+            dataExport.status = 'expired';
+            dataExport.fileName = undefined;
+            await dataExport.save();
+        }
+
+        if (expired.length > 0) {
+            logger.info(`🧹 Removed ${expired.length} expired data export(s)`);
+        }
+
+        return expired.length;
+    }
+
+    // Account purge: remove every archive along with its record
+    async deleteUserExports(userId: string): Promise<void> {
+        const exports = await DataExport.find({ userId });
+
+        for (const dataExport of exports) {
+            if (dataExport.fileName) {
+                await fs.promises.rm(path.join(this.directory, dataExport.fileName), { force: true });
+            }
+        }
+
+        await DataExport.deleteMany({ userId });
+    }
+
+    /**
+     * Stream the archive to disk so large message histories are never held in memory
+     */
+    private async writeArchive(userId: string, filePath: string): Promise<void> {
+        const stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+        let streamError: Error | null = null;
+        stream.on('error', error => {
+            streamError = error;
+        });
+
+        const write = async (chunk: string) => {
+            if (streamError) throw streamError;
+            if (!stream.write(chunk)) {
+                await once(stream, 'drain');
+            }
+        };
+
+        try {
+            const user = await User.findById(userId).lean();
+            const devices = await RefreshToken.find({ userId })
+                .select('deviceId deviceInfo ipAddress location createdAt lastUsedAt expiresAt isRevoked revokedAt')
+                .sort({ createdAt: 1 })
+                .lean();
+
+            const profile = user && {
+                id: user._id,
+                email: user.email,
+                name: user.name,
+                role: user.role,
+                profileImage: user.profileImage,
+                isEmailVerified: user.isEmailVerified,
+                isActive: user.isActive,
+                twoFactorEnabled: user.twoFactorEnabled,
+                identities: (user.identities || []).map(identity => ({
+                    provider: identity.provider,
+                    email: identity.email,
+                    linkedAt: identity.linkedAt,
+                })),
+                createdAt: user.createdAt,
+                updatedAt: user.updatedAt,
+            };
+
+            await write(`{\n"format": ${EXPORT_FORMAT_VERSION},\n"exportedAt": ${JSON.stringify(new Date())},\n`);
+            await write(`"profile": ${JSON.stringify(profile)},\n`);
+            await write(`"devices": ${JSON.stringify(devices.map(({ _id, ...device }) => device))},\n`);
+
+            // The context window only repeats messages exported below
+            const sessionIds = new Map<string, string>();
+            await write('"sessions": [');
+            let first = true;
+            for await (const session of Session.find({ userId }).select('-contextWindow').sort({ createdAt: 1 }).lean().cursor()) {
+                sessionIds.set(String(session._id), session.sessionId);
+                await write(`${first ? '' : ','}\n${JSON.stringify({
+                    sessionId: session.sessionId,
+                    status: session.status,
+                    topic: session.metadata?.topic,
+                    messageCount: session.metadata?.messageCount,
+                    startTime: session.metadata?.startTime,
+                    lastActivity: session.metadata?.lastActivity,
+                    tutorConfig: session.tutorConfig,
+                    templateId: session.templateId,
+                    createdAt: session.createdAt,
+                    updatedAt: session.updatedAt,
+                })}`);
+                first = false;
+            }
+            await write('\n],\n');
+
+            await write('"messages": [');
+            first = true;
+            for await (const message of Message.find({ userId }).sort({ createdAt: 1 }).lean().cursor()) {
+                await write(`${first ? '' : ','}\n${JSON.stringify({
+                    id: message._id,
+                    sessionId: sessionIds.get(String(message.sessionId)) ?? message.sessionId,
+                    role: message.role,
+                    content: message.content,
+                    parentId: message.parentId,
+                    version: message.version,
+                    isActive: message.isActive,
+                    metadata: message.metadata,
+                    createdAt: message.createdAt,
+                })}`);
+                first = false;
+            }
+            await write('\n]\n}\n');
+        } catch (error) {
+            stream.destroy();
+            throw error;
+        }
+
+        stream.end();
+        await once(stream, 'finish');
+    }
+
+    private hash(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
+
+export default new DataExportService();
@@ -1,7 +1,10 @@
 // src/services/external/PythonAPIClient.ts - FIXED with better error logging
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
 import logger from '@/config/logger';
+import config from '@/config/env';
 
 interface GenerateRequest {
     message: string;
@@ -9,12 +12,70 @@ interface GenerateRequest {
     sessionId: string;
     userId: string;
     stream?: boolean;
+    tutorConfig?: {
+        subject?: string;
+        gradeLevel?: string;
+        teachingStyle?: 'socratic' | 'direct';
+        language?: string;
+        systemPrompt?: string;
+        allowedTools?: string[];
+        // Reply will be read aloud, so prefer speakable text
+        voiceMode?: boolean;
+    };
 }
 
 interface GenerateResponse {
     content: string;
     model?: string;
     tokens?: number;
+    done?: boolean;
+}
+
+interface SummarizeRequest {
+    sessionId: string;
+    userId: string;
+    messages: Array<{ role: string; content: string; timestamp?: Date }>;
+    previousSummary?: string;
+}
+
+interface SummarizeResponse {
+    summary: string;
+    tokens?: number;
+}
+
+interface TranscribeRequest {
+    audio: Buffer;
+    format: string;
+    sessionId: string;
+    userId: string;
+    language?: string;
+    // Partial recording from a live stream; the result is only shown, never saved
+    interim?: boolean;
+}
+
+interface TranscribeResponse {
+    text: string;
+    confidence?: number;
+    language?: string;
+    durationMs?: number;
+}
+
+interface SynthesizeRequest {
+    text: string;
+    format: string;
+    sessionId: string;
+    userId: string;
+    language?: string;
+}
+
+interface SynthesizeResponse {
+    audio: Buffer;
+    format: string;
+    durationMs?: number;
+}
+
+interface GenerateOptions {
+    signal?: AbortSignal;
 }
 
 export default class PythonAPIClient extends EventEmitter {
@@ -74,7 +135,8 @@ export default class PythonAPIClient extends EventEmitter {
             logger.error(`❌ Python API error response`, {
                 status: error.response.status,
                 statusText: error.response.statusText,
-                data: error.response.data,
+                // Streamed responses carry a socket here, not a readable body
+                data: error.response.data instanceof Readable ? undefined : error.response.data,
                 url: error.config?.url
             });
         } else if (error.request) {
@@ -160,22 +222,29 @@ export default class PythonAPIClient extends EventEmitter {
 
     /**
      * Generate response from LLM
+     * Reads the streamed reply (SSE or NDJSON) and yields each delta as it arrives.
+     * A plain JSON reply is still accepted and yielded as a single chunk.
      */
-    async generateResponse(request: GenerateRequest): Promise<AsyncIterable<GenerateResponse>> {
+    async generateResponse(
+        request: GenerateRequest,
+        options: GenerateOptions = {}
+    ): Promise<AsyncIterable<GenerateResponse>> {
         try {
             if (!this.isHealthy) {
                 logger.warn('⚠️  Python API is not healthy, request may fail');
             }
 
-            const response = await this.client.post<GenerateResponse>('/api/generate', request);
+            const response = await this.client.post<Readable>('/api/generate', request, {
+                responseType: 'stream',
+                signal: options.signal,
+                headers: {
+                    Accept: 'text/event-stream, application/x-ndjson, application/json'
+                }
+            });
 
-            // For now, return as async iterable with single item
-            // TODO: Implement actual streaming when Python API supports it
-            async function* generateChunks() {
-                yield response.data;
-            }
+            const contentType = String(response.headers['content-type'] || '');
 
-            return generateChunks();
+            return this.readStream(response.data, contentType);
         } catch (error) {
             logger.error('❌ Failed to generate response from Python API', {
                 sessionId: request.sessionId,
@@ -186,6 +255,216 @@ export default class PythonAPIClient extends EventEmitter {
         }
     }
 
+    /**
+     * Parse a streamed response body into chunks
+     */
+    private async *readStream(
+        stream: Readable,
+        contentType: string
+    ): AsyncGenerator<GenerateResponse> {
+        const decoder = new StringDecoder('utf8');
+        let buffer = '';
+
+        // Non-streaming server: the whole body is one JSON document
+        if (contentType.includes('application/json')) {
+            for await (const data of stream) {
+                buffer += decoder.write(data);
+            }
+            buffer += decoder.end();
+
+            yield this.parseChunk(JSON.parse(buffer));
+            return;
+        }
+
+        const isSSE = contentType.includes('text/event-stream');
+        let eventName = 'message';
+        let eventData: string[] = [];
+
+        // Returns false once the server signals the end of the stream
+        const dispatch = (payload: string): GenerateResponse | null | false => {
+            if (payload.trim() === '[DONE]') return false;
+            if (eventName === 'error') {
+                throw new Error(`Python API stream error: ${payload}`);
+            }
+            return payload.trim() ? this.parseChunk(JSON.parse(payload)) : null;
+        };
+
+        const processLine = (line: string): GenerateResponse | null | false => {
+            if (!isSSE) {
+                return dispatch(line);
+            }
+
+            // Blank line terminates an SSE event
+            if (line === '') {
+                if (eventData.length === 0) return null;
+                const payload = eventData.join('\n');
+                const result = dispatch(payload);
+                eventName = 'message';
+                eventData = [];
+                return result;
+            }
+
+            if (line.startsWith(':')) return null;
+
+            const separator = line.indexOf(':');
+            const field = separator === -1 ? line : line.slice(0, separator);
+            const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+            if (field === 'data') eventData.push(value);
+            if (field === 'event') eventName = value;
+            return null;
+        };
+
+        try {
+            for await (const data of stream) {
+                buffer += decoder.write(data);
+
+                let newlineIndex: number;
+                while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+                    buffer = buffer.slice(newlineIndex + 1);
+
+                    const chunk = processLine(line);
+                    if (chunk === false) return;
+                    if (chunk) {
+                        yield chunk;
+                        if (chunk.done) return;
+                    }
+                }
+            }
+
+            // Flush whatever the server sent without a trailing newline
+            buffer += decoder.end();
+            const trailing = [buffer.replace(/\r$/, ''), ...(isSSE ? [''] : [])];
+            for (const line of trailing) {
+                const chunk = processLine(line);
+                if (chunk === false) return;
+                if (chunk) yield chunk;
+            }
+        } finally {
+            stream.destroy();
+        }
+    }
+
+    /**
+     * Normalise a chunk payload from the Python API
+     */
+    private parseChunk(payload: any): GenerateResponse {
+        if (payload?.error) {
+            throw new Error(`Python API stream error: ${payload.error}`);
+        }
+
+        return {
+            content: payload?.content ?? payload?.delta ?? payload?.token ?? '',
+            model: payload?.model,
+            tokens: payload?.tokens,
+            done: payload?.done === true
+        };
+    }
+
+    /**
+     * Compress older conversation turns into a summary
+     */
+    async summarizeConversation(request: SummarizeRequest): Promise<SummarizeResponse> {
+        try {
+            const response = await this.client.post<SummarizeResponse>('/api/summarize', request);
+            return response.data;
+        } catch (error) {
+            logger.error('❌ Failed to summarize conversation via Python API', {
+                sessionId: request.sessionId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Speech to text for a recorded clip. The audio travels base64-encoded in the JSON body.
+     */
+    async transcribe(request: TranscribeRequest): Promise<TranscribeResponse> {
+        try {
+            const response = await this.client.post('/api/transcribe', {
+                audio: request.audio.toString('base64'),
+                format: request.format,
+                language: request.language,
+                sessionId: request.sessionId,
+                userId: request.userId,
+                ...(request.interim && { interim: true })
+            }, {
+                timeout: config.voice.transcriptionTimeoutMs,
+                maxBodyLength: Infinity
+            });
+
+            const data = response.data || {};
+
+            return {
+                text: typeof data.text === 'string' ? data.text : data.transcript || '',
+                confidence: typeof data.confidence === 'number' ? data.confidence : undefined,
+                language: data.language,
+                durationMs: typeof data.durationMs === 'number'
+                    ? data.durationMs
+                    : typeof data.duration === 'number' ? Math.round(data.duration * 1000) : undefined
+            };
+        } catch (error) {
+            logger.error('❌ Failed to transcribe audio via Python API', {
+                sessionId: request.sessionId,
+                format: request.format,
+                bytes: request.audio.length,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Text to speech. The service may answer with raw audio, or JSON carrying base64 audio.
+     */
+    async synthesize(request: SynthesizeRequest): Promise<SynthesizeResponse> {
+        try {
+            const response = await this.client.post<ArrayBuffer>('/api/synthesize', {
+                text: request.text,
+                format: request.format,
+                language: request.language,
+                sessionId: request.sessionId,
+                userId: request.userId
+            }, {
+                responseType: 'arraybuffer',
+                timeout: config.voice.synthesisTimeoutMs,
+                headers: {
+                    Accept: 'audio/*, application/json'
+                }
+            });
+
+            const body = Buffer.from(response.data);
+            const contentType = String(response.headers['content-type'] || '');
+
+            if (contentType.includes('application/json')) {
+                const data = JSON.parse(body.toString('utf8'));
+
+                return {
+                    audio: Buffer.from(typeof data.audio === 'string' ? data.audio : '', 'base64'),
+                    format: typeof data.format === 'string' ? data.format.toLowerCase() : request.format,
+                    durationMs: typeof data.durationMs === 'number' ? data.durationMs : undefined
+                };
+            }
+
+            const durationHeader = Number(response.headers['x-audio-duration-ms']);
+
+            return {
+                audio: body,
+                format: request.format,
+                durationMs: Number.isFinite(durationHeader) && durationHeader > 0 ? durationHeader : undefined
+            };
+        } catch (error) {
+            logger.error('❌ Failed to synthesize speech via Python API', {
+                sessionId: request.sessionId,
+                characters: request.text.length,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            throw error;
+        }
+    }
+
     /**
      * Get health status
      */
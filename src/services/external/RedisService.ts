@@ -106,6 +106,28 @@ export default class RedisService {
         return { allowed, remaining };
     }
 
+    // Failed login tracking
+    async incrementLoginFailures(key: string, windowSeconds: number): Promise<number> {
+        const redisKey = `login:failures:${key}`;
+        const failures = await this.client.incr(redisKey);
+        // Sliding window: the count is forgotten after a quiet period
+        await this.client.expire(redisKey, windowSeconds);
+        return failures;
+    }
+
+    async clearLoginFailures(key: string) {
+        await this.client.del(`login:failures:${key}`);
+    }
+
+    async setLoginLock(key: string, seconds: number) {
+        await this.client.setex(`login:lock:${key}`, seconds, '1');
+    }
+
+    async getLoginLockTtl(key: string): Promise<number> {
+        const ttl = await this.client.ttl(`login:lock:${key}`);
+        return Math.max(0, ttl);
+    }
+
     // Caching
     async cache(key: string, value: any, ttl: number = 3600) {
         await this.client.setex(key, ttl, JSON.stringify(value));
@@ -124,13 +146,14 @@ export default class RedisService {
     }
 
     // Pub/Sub
-    subscribe(channel: string, callback: (message: string) => void) {
-        this.subscriber.subscribe(channel);
+    subscribe(channel: string, callback: (message: string) => void): Promise<unknown> {
         this.subscriber.on('message', (ch, message) => {
             if (ch === channel) {
                 callback(message);
             }
         });
+
+        return this.subscriber.subscribe(channel);
     }
 
     async publish(channel: string, message: any) {
@@ -2,17 +2,45 @@
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import config from '@/config/env';
-import { IJWTPayload, TokenPair, UserRole } from '@/types';
-import RefreshToken from '@/models/RefreshToken';
+import {
+    IAccountLinkPayload,
+    IJWTPayload,
+    ITwoFactorChallengePayload,
+    TokenPair,
+    TwoFactorChallengePurpose,
+    UserRole
+} from '@/types';
+import RefreshToken, { IRefreshTokenDocument } from '@/models/RefreshToken';
+import logger from '@/config/logger';
 import mongoose from 'mongoose';
+import { parseUserAgent } from '@/utils/deviceInfo';
+import auditService from '@/services/auditService';
+import { AuditAction } from '@/models/AuditLog';
+
+// How long a just-rotated token may still be presented without being treated as stolen
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+export interface DeviceSession {
+    id: string;
+    deviceId?: string;
+    device: string;
+    browser: string;
+    os: string;
+    ipAddress: string;
+    location?: string;
+    lastUsedAt: Date;
+    createdAt: Date;
+    isCurrent: boolean;
+}
 
 class JWTService {
 
-    generateAccessToken(userId: string, email: string, role: UserRole): string {
+    generateAccessToken(userId: string, email: string, role: UserRole, deviceId?: string): string {
         const payload: IJWTPayload = {
             userId,
             email,
             role,
+            ...(deviceId && { deviceId }),
         };
 
         // ensure types match jsonwebtoken overloads
@@ -51,12 +79,90 @@ class JWTService {
         }
     }
 
+    /**
+     * Short-lived token proving the password step passed; only the 2FA endpoints accept it
+     */
+    generateTwoFactorChallenge(userId: string, purpose: TwoFactorChallengePurpose): string {
+        const payload: ITwoFactorChallengePayload = { userId, purpose };
+
+        const secret: jwt.Secret = config.jwt.accessSecret as unknown as jwt.Secret;
+        const options: jwt.SignOptions = {
+            expiresIn: config.twoFactor.challengeExpiry as unknown as jwt.SignOptions['expiresIn'],
+            issuer: 'ai-tutor-platform',
+            audience: 'ai-tutor-2fa',
+        };
+
+        return jwt.sign(payload as jwt.JwtPayload, secret, options);
+    }
+
+    verifyTwoFactorChallenge(token: string, purpose: TwoFactorChallengePurpose): string {
+        try {
+            const decoded = jwt.verify(token, config.jwt.accessSecret, {
+                issuer: 'ai-tutor-platform',
+                audience: 'ai-tutor-2fa',
+            }) as ITwoFactorChallengePayload;
+
+            if (decoded.purpose !== purpose) {
+                throw new Error('Invalid challenge token');
+            }
+
+            return decoded.userId;
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new Error('Challenge token expired');
+            }
+            throw new Error('Invalid challenge token');
+        }
+    }
+
+    /**
+     * Short-lived token carrying a confirmed request to link a provider through the OAuth redirect
+     */
+    generateAccountLinkToken(userId: string, provider: string): string {
+        const payload: IAccountLinkPayload = { userId, provider, purpose: 'account_link' };
+
+        return jwt.sign(payload as jwt.JwtPayload, config.jwt.accessSecret, {
+            expiresIn: '10m',
+            issuer: 'ai-tutor-platform',
+            audience: 'ai-tutor-link',
+        });
+    }
+
+    verifyAccountLinkToken(token: string): { userId: string; provider: string } {
+        try {
+            const decoded = jwt.verify(token, config.jwt.accessSecret, {
+                issuer: 'ai-tutor-platform',
+                audience: 'ai-tutor-link',
+            }) as IAccountLinkPayload;
+
+            if (decoded.purpose !== 'account_link') {
+                throw new Error('Invalid link token');
+            }
+
+            return { userId: decoded.userId, provider: decoded.provider };
+        } catch {
+            throw new Error('Invalid or expired link token');
+        }
+    }
+
     async createRefreshToken(
         userId: string,
         deviceInfo: string,
         ipAddress: string,
-        session?: mongoose.ClientSession // ✅ Added session support
+        session?: mongoose.ClientSession, // ✅ Added session support
+        device: { deviceId?: string; location?: string } = {}
     ): Promise<string> {
+        const refreshToken = await this.issueRefreshToken(userId, deviceInfo, ipAddress, session, device);
+        return refreshToken.token;
+    }
+
+    private async issueRefreshToken(
+        userId: string,
+        deviceInfo: string,
+        ipAddress: string,
+        session?: mongoose.ClientSession,
+        device: { deviceId?: string; location?: string } = {}
+    ): Promise<IRefreshTokenDocument> {
         const token = this.generateRefreshToken();
         const expiresAt = new Date();
 
@@ -70,13 +176,16 @@ class JWTService {
         }
 
         // ✅ Create with session if provided
-        await RefreshToken.create(
+        const [refreshToken] = await RefreshToken.create(
             [
                 {
                     userId,
                     token,
                     deviceInfo,
                     ipAddress,
+                    deviceId: device.deviceId || crypto.randomUUID(),
+                    location: device.location,
+                    lastUsedAt: new Date(),
                     expiresAt,
                     isRevoked: false,
                 }
@@ -84,21 +193,38 @@ class JWTService {
             session ? { session } : {}
         );
 
-        return token;
+        return refreshToken;
     }
 
     async verifyRefreshToken(
         token: string,
-        session?: mongoose.ClientSession // ✅ Added session support
+        session?: mongoose.ClientSession, // ✅ Added session support
+        context: { deviceInfo?: string; ipAddress?: string } = {}
     ): Promise<string> {
-        // ✅ Pass session to findByToken
-        const refreshToken = await RefreshToken.findByToken(token, session);
+        const refreshToken = await this.findRefreshToken(token, session, context);
+        return refreshToken.userId;
+    }
+
+    /**
+     * Look up a refresh token, including revoked ones, so that a token which was
+     * already rotated can be recognised as stolen rather than merely invalid
+     */
+    private async findRefreshToken(
+        token: string,
+        session?: mongoose.ClientSession,
+        context: { deviceInfo?: string; ipAddress?: string } = {}
+    ): Promise<IRefreshTokenDocument> {
+        const refreshToken = await RefreshToken.findOne({ token }).session(session || null);
 
         if (!refreshToken) {
             throw new Error('Invalid refresh token');
         }
 
         if (refreshToken.isRevoked) {
+            if (refreshToken.replacedBy && !this.isWithinReuseGrace(refreshToken)) {
+                await this.revokeTokenFamily(refreshToken, context);
+                throw new Error('Refresh token reuse detected');
+            }
             throw new Error('Refresh token has been revoked');
         }
 
@@ -106,25 +232,98 @@ class JWTService {
             throw new Error('Refresh token expired');
         }
 
-        return refreshToken.userId;
+        return refreshToken;
+    }
+
+    // Concurrent refreshes from two tabs can legitimately present the same token
+    private isWithinReuseGrace(refreshToken: IRefreshTokenDocument): boolean {
+        if (!refreshToken.revokedAt) return false;
+        return Date.now() - refreshToken.revokedAt.getTime() < REFRESH_REUSE_GRACE_MS;
+    }
+
+    /**
+     * A rotated token was presented again, so either it or its successor is in the
+     * wrong hands. Revoke every token in the family and force a fresh login.
+     * Runs outside the caller's transaction so the revocation survives its rollback.
+     */
+    private async revokeTokenFamily(
+        refreshToken: IRefreshTokenDocument,
+        context: { deviceInfo?: string; ipAddress?: string }
+    ): Promise<void> {
+        const familyQuery = refreshToken.deviceId
+            ? { userId: refreshToken.userId, deviceId: refreshToken.deviceId }
+            : { _id: { $in: [refreshToken._id, refreshToken.replacedBy] } };
+
+        const result = await RefreshToken.updateMany(
+            { ...familyQuery, isRevoked: false },
+            { isRevoked: true, revokedAt: new Date() }
+        );
+
+        logger.warn('🚨 SECURITY: Refresh token reuse detected, token family revoked', {
+            event: 'refresh_token_reuse',
+            userId: refreshToken.userId,
+            deviceId: refreshToken.deviceId,
+            tokenId: String(refreshToken._id),
+            originalIp: refreshToken.ipAddress,
+            presentedIp: context.ipAddress,
+            presentedDevice: context.deviceInfo,
+            revokedTokens: result.modifiedCount,
+        });
+
+        await auditService.record({
+            action: AuditAction.TOKEN_REUSE,
+            outcome: 'failure',
+            actor: { userId: refreshToken.userId },
+            targetUserId: refreshToken.userId,
+            targetType: 'token',
+            targetId: String(refreshToken._id),
+            ipAddress: context.ipAddress,
+            userAgent: context.deviceInfo,
+            metadata: { deviceId: refreshToken.deviceId, revokedTokens: result.modifiedCount },
+        });
     }
 
     async rotateRefreshToken(
         oldToken: string,
         deviceInfo: string,
         ipAddress: string,
-        session?: mongoose.ClientSession // ✅ Added session support
-    ): Promise<string> {
+        session?: mongoose.ClientSession, // ✅ Added session support
+        location?: string
+    ): Promise<{ refreshToken: string; deviceId: string }> {
         // ✅ Verify with session
-        const userId = await this.verifyRefreshToken(oldToken, session);
+        const current = await this.findRefreshToken(oldToken, session, { deviceInfo, ipAddress });
 
-        // ✅ Revoke with session
-        await RefreshToken.revokeToken(oldToken, session);
+        // Legacy tokens join a new family here so the device can be listed and revoked from now on
+        const deviceId = current.deviceId || crypto.randomUUID();
 
-        // ✅ Create new token with session
-        const newToken = await this.createRefreshToken(userId, deviceInfo, ipAddress, session);
+        // ✅ Claim the token atomically: of two concurrent refreshes only one may rotate it
+        const claimed = await RefreshToken.updateOne(
+            { _id: current._id, isRevoked: false },
+            { $set: { isRevoked: true, revokedAt: new Date(), deviceId } },
+            { session }
+        );
 
-        return newToken;
+        if (claimed.modifiedCount === 0) {
+            throw new Error('Refresh token has been revoked');
+        }
+
+        // ✅ Create new token with session, keeping the same device (token family)
+        const replacement = await this.issueRefreshToken(
+            current.userId,
+            deviceInfo,
+            ipAddress,
+            session,
+            { deviceId, location: location || current.location }
+        );
+
+        // ✅ Remember what replaced it for reuse detection
+        await RefreshToken.updateOne(
+            { _id: current._id },
+            { $set: { replacedBy: replacement._id } },
+            { session }
+        );
+
+        return { refreshToken: replacement.token, deviceId };
     }
 
     async revokeAllUserTokens(
@@ -146,36 +345,97 @@ class JWTService {
         email: string,
         role: UserRole,
         deviceInfo: string,
-        ipAddress: string
+        ipAddress: string,
+        location?: string
     ): Promise<TokenPair> {
-        const accessToken = this.generateAccessToken(userId, email, role);
-        const refreshToken = await this.createRefreshToken(userId, deviceInfo, ipAddress);
+        const deviceId = crypto.randomUUID();
+        const accessToken = this.generateAccessToken(userId, email, role, deviceId);
+        const refreshToken = await this.createRefreshToken(
+            userId,
+            deviceInfo,
+            ipAddress,
+            undefined,
+            { deviceId, location }
+        );
 
         return { accessToken, refreshToken };
     }
 
     /**
-     * ✅ NEW: Get all active sessions for a user
+     * ✅ NEW: Get all active sessions for a user, one per signed-in device
      */
-    async getUserSessions(userId: string): Promise<any[]> {
-        return await RefreshToken.find({
+    async getUserSessions(userId: string, currentDeviceId?: string): Promise<DeviceSession[]> {
+        const tokens = await RefreshToken.find({
             userId,
             isRevoked: false,
             expiresAt: { $gt: new Date() },
         })
-            .select('deviceInfo ipAddress createdAt')
-            .sort({ createdAt: -1 })
+            .select('deviceId deviceInfo ipAddress location lastUsedAt createdAt')
+            .sort({ lastUsedAt: -1, createdAt: -1 })
             .lean();
+
+        return tokens.map(token => {
+            const { browser, os, device } = parseUserAgent(token.deviceInfo);
+
+            return {
+                id: String(token._id),
+                deviceId: token.deviceId,
+                device,
+                browser,
+                os,
+                ipAddress: token.ipAddress,
+                location: token.location,
+                lastUsedAt: token.lastUsedAt || token.createdAt,
+                createdAt: token.createdAt,
+                isCurrent: !!currentDeviceId && token.deviceId === currentDeviceId,
+            };
+        });
     }
 
     /**
      * ✅ NEW: Revoke specific session
+     * Returns the revoked device, or null if the session doesn't belong to the user
      */
-    async revokeSession(userId: string, sessionId: string): Promise<void> {
-        await RefreshToken.updateOne(
-            { _id: sessionId, userId },
-            { isRevoked: true }
-        );
+    async revokeSession(userId: string, sessionId: string): Promise<{ deviceId?: string } | null> {
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+            return null;
+        }
+
+        const token = await RefreshToken.findOne({ _id: sessionId, userId, isRevoked: false });
+        if (!token) {
+            return null;
+        }
+
+        if (token.deviceId) {
+            await RefreshToken.updateMany(
+                { userId, deviceId: token.deviceId, isRevoked: false },
+                { isRevoked: true, revokedAt: new Date() }
+            );
+        } else {
+            await RefreshToken.updateOne(
+                { _id: token._id, isRevoked: false },
+                { isRevoked: true, revokedAt: new Date() }
+            );
+        }
+
+        return { deviceId: token.deviceId };
+    }
+
+    /**
+     * Whether a device still holds a live refresh token.
+     * Access tokens issued before device tracking carry no deviceId and are let through.
+     */
+    async isDeviceActive(userId: string, deviceId?: string): Promise<boolean> {
+        if (!deviceId) return true;
+
+        const token = await RefreshToken.exists({
+            userId,
+            deviceId,
+            isRevoked: false,
+            expiresAt: { $gt: new Date() },
+        });
+
+        return !!token;
     }
 
     /**
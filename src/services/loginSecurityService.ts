@@ -0,0 +1,128 @@
+// src/services/loginSecurityService.ts
+import config from '@/config/env';
+import logger from '@/config/logger';
+import RefreshToken from '@/models/RefreshToken';
+import { IUserDocument } from '@/models/User';
+import RedisService from '@/services/external/RedisService';
+import { sendNewLoginAlertEmail } from '@/services/mailerService';
+import { parseUserAgent } from '@/utils/deviceInfo';
+
+class LoginSecurityService {
+    private redisService = new RedisService();
+
+    /**
+     * Seconds left on an account lockout, 0 when not locked.
+     * Keyed by email so unknown addresses behave exactly like real ones.
+     */
+    async getLockout(email: string): Promise<number> {
+        try {
+            return await this.redisService.getLoginLockTtl(this.key(email));
+        } catch (error) {
+            // Fail open: a Redis outage must not lock everyone out
+            logger.warn('Login lockout check unavailable:', (error as Error).message);
+            return 0;
+        }
+    }
+
+    /**
+     * Count a failed sign-in attempt (password, email code or 2FA code). Every `maxFailedAttempts` failures
+     * locks the account for the next, longer step. Returns the lockout in seconds, or 0.
+     */
+    async recordFailure(email: string, ipAddress: string): Promise<number> {
+        const { maxFailedAttempts, failureWindowMinutes, lockoutMinutes } = config.loginSecurity;
+
+        try {
+            const key = this.key(email);
+            const failures = await this.redisService.incrementLoginFailures(
+                key,
+                failureWindowMinutes * 60 + Math.max(0, ...lockoutMinutes) * 60
+            );
+
+            if (failures % maxFailedAttempts !== 0 || lockoutMinutes.length === 0) {
+                return 0;
+            }
+
+            const step = Math.min(failures / maxFailedAttempts, lockoutMinutes.length) - 1;
+            const seconds = lockoutMinutes[step] * 60;
+            await this.redisService.setLoginLock(key, seconds);
+
+            logger.warn('🚨 SECURITY: Account locked after repeated failed logins', {
+                event: 'account_lockout',
+                email: key,
+                failures,
+                lockoutSeconds: seconds,
+                ipAddress,
+            });
+
+            return seconds;
+        } catch (error) {
+            logger.warn('Failed login tracking unavailable:', (error as Error).message);
+            return 0;
+        }
+    }
+
+    async clearFailures(email: string): Promise<void> {
+        try {
+            await this.redisService.clearLoginFailures(this.key(email));
+        } catch (error) {
+            logger.warn('Failed login reset unavailable:', (error as Error).message);
+        }
+    }
+
+    /**
+     * Email the owner when a sign-in comes from a device or IP address not seen
+     * in their refresh token history. Call before issuing the new tokens.
+     */
+    async notifyIfNewLogin(
+        user: IUserDocument,
+        deviceInfo: string,
+        ipAddress: string,
+        location?: string
+    ): Promise<void> {
+        if (!config.loginSecurity.newLoginAlerts) {
+            return;
+        }
+
+        try {
+            const [knownDevices, knownIps] = await Promise.all([
+                RefreshToken.distinct('deviceInfo', { userId: user._id }),
+                RefreshToken.distinct('ipAddress', { userId: user._id }),
+            ]);
+
+            // First sign-in: nothing to compare against
+            if (knownDevices.length === 0) {
+                return;
+            }
+
+            // Compare browser and OS rather than the raw string, so browser updates aren't "new devices"
+            const current = parseUserAgent(deviceInfo);
+            const deviceKnown = knownDevices.some(known => {
+                const parsed = parseUserAgent(known);
+                return parsed.browser === current.browser && parsed.os === current.os;
+            });
+            const ipKnown = knownIps.includes(ipAddress);
+
+            if (deviceKnown && ipKnown) {
+                return;
+            }
+
+            logger.info(`New sign-in location for user: ${user._id}`, { deviceKnown, ipKnown });
+
+            // Don't hold up the login on SMTP
+            sendNewLoginAlertEmail(user.email, {
+                device: `${current.browser} on ${current.os}`,
+                ipAddress,
+                location,
+                time: new Date(),
+            }).catch(error => logger.error('Failed to send new sign-in alert:', error));
+        } catch (error) {
+            logger.error('New sign-in check failed:', error);
+        }
+    }
+
+    private key(email: string): string {
+        return email.trim().toLowerCase();
+    }
+}
+
+export default new LoginSecurityService();
@@ -45,4 +45,98 @@ export async function sendPasswordResetEmail(to: string, token: string) {
     });
 }
 
+export async function sendMagicLinkEmail(to: string, token: string, expiresInMinutes: number) {
+    const loginUrl = `${config.frontendUrl}/auth/magic-link?token=${encodeURIComponent(token)}`;
+
+    const html = `
+    <p>Click the link below to sign in:</p>
+    <a href="${loginUrl}">Sign in</a>
+    <p>This link expires in ${expiresInMinutes} minutes and can only be used once.</p>
+    <p>If you did not request this, ignore this email.</p>
+  `;
+
+    await transporter.sendMail({
+        from: config.mailer.from,
+        to,
+        subject: 'Your sign-in link',
+        html,
+    });
+}
+
+export async function sendLoginCodeEmail(to: string, code: string, expiresInMinutes: number) {
+    const html = `
+    <p>Your sign-in code is:</p>
+    <p style="font-size: 24px; font-weight: bold; letter-spacing: 4px;">${code}</p>
+    <p>This code expires in ${expiresInMinutes} minutes.</p>
+    <p>If you did not request this, ignore this email.</p>
+  `;
+
+    await transporter.sendMail({
+        from: config.mailer.from,
+        to,
+        subject: `Your sign-in code: ${code}`,
+        html,
+    });
+}
+
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export async function sendNewLoginAlertEmail(
+    to: string,
+    details: { device: string; ipAddress: string; location?: string; time: Date }
+) {
+    const sessionsUrl = `${config.frontendUrl}/settings/sessions`;
+
+    const html = `
+    <p>We noticed a sign-in to your account from a new device or location:</p>
+    <ul>
+      <li>Device: ${escapeHtml(details.device)}</li>
+      <li>IP address: ${escapeHtml(details.ipAddress)}</li>
+      ${details.location ? `<li>Location: ${escapeHtml(details.location)}</li>` : ''}
+      <li>Time: ${details.time.toUTCString()}</li>
+    </ul>
+    <p>If this was you, no action is needed.</p>
+    <p>If not, <a href="${sessionsUrl}">sign out that device</a> and change your password.</p>
+  `;
+
+    await transporter.sendMail({
+        from: config.mailer.from,
+        to,
+        subject: 'New sign-in to your account',
+        html,
+    });
+}
+
+export async function sendDataExportReadyEmail(to: string, downloadUrl: string, expiresAt: Date) {
+    const html = `
+    <p>The export of your account data is ready.</p>
+    <a href="${downloadUrl}">Download your data</a>
+    <p>This link expires on ${expiresAt.toUTCString()}.</p>
+    <p>If you did not request this export, change your password and sign out your other devices.</p>
+  `;
+
+    await transporter.sendMail({
+        from: config.mailer.from,
+        to,
+        subject: 'Your data export is ready',
+        html,
+    });
+}
+
+export async function sendAccountDeletionScheduledEmail(to: string, scheduledFor: Date) {
+    const html = `
+    <p>Your account is scheduled for deletion on ${scheduledFor.toUTCString()}.</p>
+    <p>After that date your profile, tutoring sessions and messages will be permanently removed.</p>
+    <p>Changed your mind? <a href="${config.frontendUrl}/login">Sign in</a> before then to cancel the deletion.</p>
+  `;
+
+    await transporter.sendMail({
+        from: config.mailer.from,
+        to,
+        subject: 'Your account is scheduled for deletion',
+        html,
+    });
+}
+
 export default transporter;
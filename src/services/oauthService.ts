@@ -0,0 +1,158 @@
+// src/services/oauthService.ts
+import logger from '@/config/logger';
+import User, { IUserDocument } from '@/models/User';
+import { OAuthProfile, UserRole } from '@/types';
+
+class OAuthService {
+    /**
+     * Resolve the local account for an external login:
+     * 1. an account that already has this identity linked
+     * 2. a legacy account linked through the old googleId field
+     * 3. otherwise a new student account
+     * An existing account with the same email is never linked here, even if the
+     * provider says the email is verified: linking needs the account's own
+     * credentials, through POST /auth/link/:provider.
+     */
+    async findOrCreateUser(profile: OAuthProfile): Promise<IUserDocument> {
+        const linked = await this.findByIdentity(profile.provider, profile.id);
+        if (linked) {
+            return linked;
+        }
+
+        if (profile.provider === 'google') {
+            const legacy = await User.findOne({ googleId: profile.id });
+            if (legacy) {
+                return this.linkIdentity(legacy, profile);
+            }
+        }
+
+        if (!profile.email) {
+            throw new Error(`No email found in ${profile.provider} profile`);
+        }
+
+        const existing = await User.findByEmail(profile.email);
+        if (existing) {
+            throw new Error(
+                'An account with this email already exists. Sign in and link this provider from your account settings.'
+            );
+        }
+
+        // Keep within the User name length limits
+        const name = profile.name.trim().length >= 2 ? profile.name.trim() : profile.email.split('@')[0];
+
+        const user = await User.create({
+            email: profile.email,
+            name: name.slice(0, 50),
+            role: UserRole.STUDENT,
+            isEmailVerified: profile.emailVerified,
+            profileImage: profile.picture,
+            identities: [this.toIdentity(profile)],
+        });
+
+        logger.info(`User created from ${profile.provider} login: ${user._id}`);
+        return user;
+    }
+
+    async findByIdentity(provider: string, providerId: string): Promise<IUserDocument | null> {
+        return User.findOne({
+            identities: { $elemMatch: { provider, providerId } },
+        });
+    }
+
+    async linkIdentity(user: IUserDocument, profile: OAuthProfile): Promise<IUserDocument> {
+        const current = user.identities.find(identity => identity.provider === profile.provider);
+        if (current && current.providerId !== profile.id) {
+            throw new Error(`This account is already linked to a different ${profile.provider} account`);
+        }
+
+        if (!current) {
+            user.identities.push(this.toIdentity(profile));
+        }
+
+        if (profile.provider === 'google' && user.googleId) {
+            user.googleId = undefined;
+        }
+
+        if (profile.emailVerified && profile.email === user.email) {
+            user.isEmailVerified = true;
+        }
+
+        if (profile.picture && !user.profileImage) {
+            user.profileImage = profile.picture;
+        }
+
+        await user.save();
+
+        logger.info(`Linked ${profile.provider} identity to user: ${user._id}`);
+        return user;
+    }
+
+    /**
+     * Attach an identity to a signed-in account from an explicit link request
+     */
+    async linkToUser(userId: string, profile: OAuthProfile): Promise<IUserDocument> {
+        const owner = await this.findByIdentity(profile.provider, profile.id);
+        if (owner && String(owner._id) !== userId) {
+            throw new Error(`This ${profile.provider} account is already linked to another user`);
+        }
+
+        const user = await User.findById(userId);
+        if (!user || !user.isActive) {
+            throw new Error('User not found');
+        }
+
+        return this.linkIdentity(user, profile);
+    }
+
+    /**
+     * Remove a provider from an account, as long as another way to sign in remains
+     */
+    async unlinkIdentity(userId: string, provider: string): Promise<IUserDocument> {
+        const user = await User.findById(userId).select('+password');
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const linked =
+            user.identities.some(identity => identity.provider === provider) ||
+            (provider === 'google' && !!user.googleId);
+
+        if (!linked) {
+            throw new Error(`No ${provider} account is linked`);
+        }
+
+        if (this.countLoginMethods(user) <= 1) {
+            throw new Error('Cannot unlink your only sign-in method. Set a password or link another provider first.');
+        }
+
+        user.identities = user.identities.filter(identity => identity.provider !== provider);
+        if (provider === 'google') {
+            user.googleId = undefined;
+        }
+
+        await user.save();
+
+        logger.info(`Unlinked ${provider} identity from user: ${user._id}`);
+        return user;
+    }
+
+    countLoginMethods(user: IUserDocument): number {
+        const providers = new Set(user.identities.map(identity => identity.provider));
+        if (user.googleId) {
+            providers.add('google');
+        }
+
+        return providers.size + (user.password ? 1 : 0);
+    }
+
+    private toIdentity(profile: OAuthProfile) {
+        return {
+            provider: profile.provider,
+            providerId: profile.id,
+            email: profile.email,
+            linkedAt: new Date(),
+        };
+    }
+}
+
+export default new OAuthService();
@@ -0,0 +1,137 @@
+// src/services/passwordlessService.ts
+import crypto from 'crypto';
+import config from '@/config/env';
+import logger from '@/config/logger';
+import User, { IUserDocument } from '@/models/User';
+import { sendMagicLinkEmail, sendLoginCodeEmail } from '@/services/mailerService';
+
+const OTP_FIELDS = '+loginOtpHash +loginOtpExpires +loginOtpAttempts';
+
+class PasswordlessService {
+    /**
+     * Email a single-use sign-in link. Unknown or deactivated accounts are
+     * silently ignored so the endpoint can't be used to probe for emails.
+     */
+    async sendMagicLink(email: string): Promise<void> {
+        const user = await User.findByEmail(email);
+        if (!user || !user.isActive) {
+            return;
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresInMinutes = config.passwordless.magicLinkExpiryMinutes;
+
+        await User.updateOne(
+            { _id: user._id },
+            {
+                magicLinkTokenHash: this.hash(token),
+                magicLinkExpires: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+            }
+        );
+
+        await sendMagicLinkEmail(user.email, token, expiresInMinutes);
+        logger.info(`Magic link sent to user: ${user._id}`);
+    }
+
+    /**
+     * Exchange a magic-link token for its user, consuming it
+     */
+    async redeemMagicLink(token: string): Promise<IUserDocument | null> {
+        // Atomic so the same link can't be redeemed twice
+        const user = await User.findOneAndUpdate(
+            {
+                magicLinkTokenHash: this.hash(token),
+                magicLinkExpires: { $gt: new Date() },
+            },
+            {
+                $unset: { magicLinkTokenHash: 1, magicLinkExpires: 1 },
+                isEmailVerified: true,
+            },
+            { new: true }
+        );
+
+        return user && user.isActive ? user : null;
+    }
+
+    async sendLoginCode(email: string): Promise<void> {
+        const user = await User.findByEmail(email);
+        if (!user || !user.isActive) {
+            return;
+        }
+
+        const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+        const expiresInMinutes = config.passwordless.otpExpiryMinutes;
+
+        await User.updateOne(
+            { _id: user._id },
+            {
+                loginOtpHash: this.hashCode(String(user._id), code),
+                loginOtpExpires: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+                loginOtpAttempts: 0,
+            }
+        );
+
+        await sendLoginCodeEmail(user.email, code, expiresInMinutes);
+        logger.info(`Login code sent to user: ${user._id}`);
+    }
+
+    /**
+     * Check an emailed code. Too many wrong guesses burn the code.
+     */
+    async verifyLoginCode(email: string, code: string): Promise<IUserDocument | null> {
+        const user = await User.findOne({ email: email.toLowerCase() }).select(OTP_FIELDS);
+
+        if (!user?.loginOtpHash || !user.loginOtpExpires || user.loginOtpExpires < new Date()) {
+            return null;
+        }
+
+        if ((user.loginOtpAttempts || 0) >= config.passwordless.otpMaxAttempts) {
+            await this.clearLoginCode(user);
+            return null;
+        }
+
+        const expected = Buffer.from(user.loginOtpHash);
+        const actual = Buffer.from(this.hashCode(String(user._id), code));
+
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            await User.updateOne({ _id: user._id }, { $inc: { loginOtpAttempts: 1 } });
+            return null;
+        }
+
+        // Consume the code only if nobody else got there first
+        const result = await User.updateOne(
+            { _id: user._id, loginOtpHash: user.loginOtpHash },
+            {
+                $unset: { loginOtpHash: 1, loginOtpExpires: 1, loginOtpAttempts: 1 },
+                isEmailVerified: true,
+            }
+        );
+
+        if (result.modifiedCount !== 1 || !user.isActive) {
+            return null;
+        }
+
+        return user;
+    }
+
+    private async clearLoginCode(user: IUserDocument): Promise<void> {
+        await User.updateOne(
+            { _id: user._id },
+            { $unset: { loginOtpHash: 1, loginOtpExpires: 1, loginOtpAttempts: 1 } }
+        );
+    }
+
+    private hash(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    // Keyed so the small code space can't be brute-forced from a database dump
+    private hashCode(userId: string, code: string): string {
+        return crypto
+            .createHmac('sha256', config.jwt.refreshSecret)
+            .update(`${userId}:${code}`)
+            .digest('hex');
+    }
+}
+
+export default new PasswordlessService();
@@ -1,11 +1,21 @@
 // src/services/queue/MessageQueue.ts - FIXED Bull Queue Redis Configuration
 import Bull, { Queue, Job } from 'bull';
 import PythonAPIClient from '../external/PythonAPIClient';
+import RedisService from '../external/RedisService';
 import { SocketManager } from '../socket/SocketManager';
 import logger from '@/config/logger';
 import Message from '@/models/Message';
 import Session from '@/models/Session';
 import mongoose from 'mongoose';
+import tokenizer from '@/utils/tokenizer';
+import SessionService from '../session/SessionService';
+import dataExportService from '../dataExportService';
+import accountDeletionService from '../accountDeletionService';
+import speechService from '../speechService';
+import callService from '../callService';
+import { audioMimeType } from '@/utils/audio';
+import config from '@/config/env';
+import { callConfig } from '@/config/webrtc';
 
 interface LLMJobData {
     sessionId: string;
@@ -15,12 +25,43 @@ interface LLMJobData {
     context: any;
 }
 
+interface SummaryJobData {
+    sessionId: string;
+    userId: string;
+}
+
+export type NotificationJobData =
+    | { type: 'data_export'; exportId: string; userId: string };
+
+interface MaintenanceJobData {
+    type: 'account_purge' | 'call_sweep';
+}
+
+interface ActiveGeneration {
+    sessionId: string;
+    controller: AbortController;
+    cancelled: boolean;
+}
+
+const CANCEL_CHANNEL = 'llm:cancel';
+
+// Summarise once the context window is this full, before the budget starts dropping turns
+const SUMMARY_TRIGGER_RATIO = 0.8;
+// Share of the budget kept verbatim as recent turns after summarising
+const SUMMARY_KEEP_RATIO = 0.5;
+
 export default class MessageQueue {
     private llmQueue: Queue | null = null;
+    private summaryQueue: Queue | null = null;
     private notificationQueue: Queue | null = null;
+    private maintenanceQueue: Queue | null = null;
     private pythonClient: PythonAPIClient;
+    private redisService: RedisService;
     private socketManager: SocketManager | null = null;
     private fallbackMode: boolean = false;
+    // In-flight generations on this instance, keyed by the user message they answer
+    private activeGenerations: Map<string, ActiveGeneration> = new Map();
+    private sessionService = new SessionService();
 
     constructor(
         private readonly messageModel = Message,
@@ -46,6 +87,19 @@ export default class MessageQueue {
         };
 
         this.pythonClient = new PythonAPIClient();
+        this.redisService = new RedisService();
+
+        // Cancellations may be requested on another instance than the one running the job
+        this.redisService.subscribe(CANCEL_CHANNEL, (message: string) => {
+            try {
+                const { messageId } = JSON.parse(message);
+                this.abortGeneration(messageId);
+            } catch (error) {
+                logger.error('❌ Invalid cancellation message:', error);
+            }
+        }).catch(error => {
+            logger.warn('⚠️  Could not subscribe to cancellations; only local generations can be cancelled:', error.message);
+        });
 
         try {
             // Initialize LLM Queue
@@ -63,6 +117,22 @@ export default class MessageQueue {
                 }
             });
 
+            // Initialize Summarization Queue
+            this.summaryQueue = new Bull('conversation-summaries', {
+                redis: redisConfig,
+                defaultJobOptions: {
+                    attempts: 2,
+                    backoff: {
+                        type: 'exponential',
+                        delay: 5000
+                    },
+                    // Job ids are per session, so free them once done
+                    removeOnComplete: true,
+                    removeOnFail: true,
+                    timeout: 120000
+                }
+            });
+
             // Initialize Notification Queue
             this.notificationQueue = new Bull('notifications', {
                 redis: redisConfig,
@@ -76,6 +146,17 @@ export default class MessageQueue {
                     removeOnFail: false
                 }
             });
+
+            // Initialize Maintenance Queue (scheduled housekeeping)
+            this.maintenanceQueue = new Bull('maintenance', {
+                redis: redisConfig,
+                defaultJobOptions: {
+                    attempts: 1,
+                    removeOnComplete: true,
+                    removeOnFail: 50,
+                    timeout: 10 * 60 * 1000
+                }
+            });
             console.log("Working")
             this.setupProcessors();
             this.setupEventHandlers();
@@ -94,7 +175,7 @@ export default class MessageQueue {
     }
 
     private setupProcessors() {
-        if (!this.llmQueue || !this.notificationQueue) {
+        if (!this.llmQueue || !this.summaryQueue || !this.notificationQueue) {
             logger.warn('⚠️  Queues not initialized, skipping processor setup');
             return;
         }
@@ -104,11 +185,23 @@ export default class MessageQueue {
             return this.processLLMRequest(job);
         });
 
+        // Summaries run in the background and can wait behind replies
+        this.summaryQueue.process(2, async (job: Job) => {
+            return this.processSummaryRequest(job);
+        });
+
         // Notification processing
         this.notificationQueue.process(10, async (job: Job) => {
             return this.processNotification(job);
         });
 
+        if (this.maintenanceQueue) {
+            this.maintenanceQueue.process(1, async (job: Job) => {
+                return this.processMaintenance(job);
+            });
+            this.scheduleMaintenance();
+        }
+
         logger.info('✅ Queue processors configured');
     }
 
@@ -138,11 +231,22 @@ export default class MessageQueue {
             logger.error('❌ LLM Queue error:', error);
         });
 
+        this.summaryQueue?.on('failed', (job, err) => {
+            logger.error(`❌ Summary job failed: ${job?.id}`, {
+                error: err.message,
+                attempts: job?.attemptsMade
+            });
+        });
+
+        this.summaryQueue?.on('error', (error) => {
+            logger.error('❌ Summary Queue error:', error);
+        });
+
         logger.info('✅ Queue event handlers configured');
     }
 
     private async processLLMRequest(job: Job<LLMJobData>): Promise<any> {
-        const { sessionId, userId, content, context } = job.data;
+        const { sessionId, userId, messageId, content, context } = job.data;
         const startTime = Date.now();
 
         try {
@@ -153,6 +257,32 @@ export default class MessageQueue {
                 throw new Error(`Session ${sessionId} not found or inactive`);
             }
 
+            const tutorConfig = session.tutorConfig;
+            const fittedContext = this.fitContextToBudget(
+                context.messages,
+                content,
+                session.contextWindow.maxTokens,
+                tutorConfig?.systemPrompt
+            );
+
+            // Retrying can't make it fit, so this finishes the job instead of failing it
+            if (!fittedContext) {
+                logger.warn(`⚠️  Prompt for session ${sessionId} exceeds the ${session.contextWindow.maxTokens}-token budget`, {
+                    messageId
+                });
+
+                if (this.socketManager) {
+                    this.socketManager.emitToUser(userId, 'error', {
+                        code: 'PROMPT_TOO_LONG',
+                        message: 'Message is too long for this session\'s context window',
+                        sessionId,
+                        replyTo: messageId
+                    });
+                }
+
+                return { success: false, reason: 'prompt_too_long' };
+            }
+
             await job.progress(20);
 
             if (this.socketManager) {
@@ -164,34 +294,81 @@ export default class MessageQueue {
 
             await job.progress(40);
 
-            const response = await this.pythonClient.generateResponse({
-                message: content,
-                context: context.messages,
-                sessionId,
-                userId,
-                stream: true
-            });
+            // Abort the upstream request if the stream runs past the job timeout
+            const abortController = new AbortController();
+            let timedOut = false;
+            const streamTimeout = setTimeout(() => {
+                timedOut = true;
+                abortController.abort();
+            }, 60000);
 
-            await job.progress(60);
+            const generation: ActiveGeneration = {
+                sessionId,
+                controller: abortController,
+                cancelled: false
+            };
+            this.activeGenerations.set(messageId, generation);
 
             let fullResponse = '';
-            const streamTimeout = setTimeout(() => {
-                throw new Error('Stream timeout after 60 seconds');
-            }, 60000);
+            let llmModel: string | undefined;
+            let tokens: number | undefined;
+            let sequence = 0;
 
             try {
+                const response = await this.pythonClient.generateResponse({
+                    message: content,
+                    context: fittedContext,
+                    sessionId,
+                    userId,
+                    stream: true,
+                    tutorConfig: {
+                        subject: tutorConfig?.subject,
+                        gradeLevel: tutorConfig?.gradeLevel,
+                        teachingStyle: tutorConfig?.teachingStyle,
+                        language: tutorConfig?.language,
+                        systemPrompt: tutorConfig?.systemPrompt,
+                        allowedTools: tutorConfig?.allowedTools,
+                        voiceMode: tutorConfig?.voiceMode
+                    }
+                }, { signal: abortController.signal });
+
+                await job.progress(60);
+
                 for await (const chunk of response) {
+                    llmModel = chunk.model || llmModel;
+                    tokens = chunk.tokens ?? tokens;
+
+                    if (!chunk.content) continue;
+
                     fullResponse += chunk.content;
 
                     if (this.socketManager) {
                         this.socketManager.emitToSession(sessionId, 'message:partial', {
+                            replyTo: messageId,
                             content: chunk.content,
+                            sequence: sequence++,
                             isDone: false
                         });
                     }
                 }
+            } catch (error) {
+                if (generation.cancelled) {
+                    return await this.finishCancelledGeneration(
+                        (session._id as mongoose.Types.ObjectId).toString(),
+                        sessionId,
+                        userId,
+                        messageId,
+                        fullResponse,
+                        { llmModel, tokens }
+                    );
+                }
+                if (timedOut) {
+                    throw new Error('Stream timeout after 60 seconds');
+                }
+                throw error;
             } finally {
                 clearTimeout(streamTimeout);
+                this.activeGenerations.delete(messageId);
             }
 
             await job.progress(80);
@@ -203,7 +380,9 @@ export default class MessageQueue {
             const assistantMessage = await this.saveAssistantMessage(
                 (session._id as mongoose.Types.ObjectId).toString(),
                 userId,
-                fullResponse
+                messageId,
+                fullResponse,
+                { llmModel, tokens }
             );
 
             await job.progress(100);
@@ -211,16 +390,31 @@ export default class MessageQueue {
             if (this.socketManager) {
                 this.socketManager.emitToSession(sessionId, 'message:received', {
                     messageId: assistantMessage._id,
+                    replyTo: messageId,
                     role: 'assistant',
                     content: fullResponse,
                     timestamp: assistantMessage.createdAt,
                     metadata: {
                         duration: Date.now() - startTime,
                         tokens: assistantMessage.metadata?.tokens
-                    }
+                    },
+                    ...(session.tutorConfig?.voiceMode && { speechPending: true })
                 });
             }
 
+            // Speech is extra: a failure here must not retry (and regenerate) the reply
+            if (session.tutorConfig?.voiceMode) {
+                this.speakReply(
+                    sessionId,
+                    userId,
+                    messageId,
+                    String(assistantMessage._id),
+                    fullResponse,
+                    session.tutorConfig.language
+                )
+                    .catch(error => logger.error('❌ Failed to synthesize reply:', error));
+            }
+
             return {
                 success: true,
                 messageId: assistantMessage._id,
@@ -249,47 +443,167 @@ export default class MessageQueue {
         }
     }
 
+    /**
+     * Synthesise a saved reply, keep the audio for replay and stream it to the session
+     */
+    private async speakReply(
+        sessionId: string,
+        userId: string,
+        replyTo: string,
+        messageId: string,
+        text: string,
+        language?: string
+    ): Promise<void> {
+        const speech = await this.pythonClient.synthesize({
+            text,
+            format: config.voice.speechFormat,
+            sessionId,
+            userId,
+            language
+        });
+
+        if (speech.audio.length === 0) {
+            throw new Error('Empty audio from speech synthesis');
+        }
+
+        const stored = await speechService.store(userId, messageId, speech.audio, speech.format, speech.durationMs);
+        await this.messageModel.updateOne({ _id: messageId }, { $set: { 'metadata.speech': stored } });
+
+        if (!this.socketManager) return;
+
+        const mimeType = audioMimeType(speech.format);
+        const chunkSize = Math.max(1024, config.voice.speechChunkBytes);
+        const total = Math.ceil(speech.audio.length / chunkSize);
+
+        for (let sequence = 0; sequence < total; sequence++) {
+            this.socketManager.emitToSession(sessionId, 'voice:response', {
+                messageId,
+                replyTo,
+                format: speech.format,
+                mimeType,
+                sequence,
+                chunk: speech.audio.subarray(sequence * chunkSize, (sequence + 1) * chunkSize),
+                isFinal: sequence === total - 1,
+                ...(sequence === total - 1 && { durationMs: speech.durationMs, size: speech.audio.length })
+            });
+        }
+
+        logger.info(`🔊 Spoken reply sent for message ${messageId}`, {
+            bytes: speech.audio.length,
+            chunks: total
+        });
+    }
+
+    /**
+     * A regenerated reply is saved: move the active branch off the reply it
+     * replaces and anything that followed it, and rebuild the context window.
+     * Done only now, so a regeneration that fails before producing any text
+     * leaves the old reply and the session's context in place.
+     */
+    private async retirePreviousReplies(replyId: string, parentId: mongoose.Types.ObjectId) {
+        const prompt = await this.messageModel.findById(parentId).select('sessionId createdAt');
+        if (!prompt) return;
+
+        // Replies saved before threading existed have no parentId
+        const replaced = await this.messageModel.findOne({
+            _id: { $ne: replyId },
+            sessionId: prompt.sessionId,
+            role: 'assistant',
+            isActive: { $ne: false },
+            createdAt: { $gt: prompt.createdAt },
+            $or: [{ parentId }, { parentId: null }]
+        }).sort({ createdAt: 1 }).select('createdAt');
+
+        if (!replaced) return;
+
+        await this.messageModel.updateMany(
+            {
+                _id: { $ne: replyId },
+                sessionId: prompt.sessionId,
+                isActive: { $ne: false },
+                createdAt: { $gte: replaced.createdAt }
+            },
+            { $set: { isActive: false } }
+        );
+
+        // The context window was left alone while regenerating; cut it back to the prompt now
+        const session = await this.sessionModel.findById(prompt.sessionId);
+        if (session) {
+            await this.sessionService.restoreContextWindow(
+                session,
+                await this.sessionService.getHistoryAt(session, prompt)
+            );
+        }
+    }
+
     private async saveAssistantMessage(
         sessionId: string,
         userId: string,
-        content: string
+        replyTo: string,
+        content: string,
+        metadata: { llmModel?: string; tokens?: number; truncated?: boolean } = {}
     ) {
         try {
             if (!mongoose.Types.ObjectId.isValid(sessionId)) {
                 throw new Error('Invalid session ID format');
             }
 
+            // Earlier replies to the same prompt (e.g. before a regenerate) are sibling versions
+            const parentId = mongoose.Types.ObjectId.isValid(replyTo)
+                ? new mongoose.Types.ObjectId(replyTo)
+                : null;
+            const previousVersions = parentId
+                ? await this.messageModel.countDocuments({ parentId, role: 'assistant' })
+                : 0;
+
             const message = await this.messageModel.create({
                 sessionId: new mongoose.Types.ObjectId(sessionId),
                 userId: new mongoose.Types.ObjectId(userId),
                 role: 'assistant' as const,
                 content,
+                parentId,
+                version: previousVersions + 1,
+                isActive: true,
                 metadata: {
-                    llmModel: 'gpt-4',
-                    tokens: Math.ceil(content.length / 4)
+                    llmModel: metadata.llmModel || 'gpt-4',
+                    tokens: metadata.tokens ?? Math.ceil(content.length / 4),
+                    truncated: metadata.truncated || undefined
                 }
             });
 
+            if (parentId) {
+                await this.retirePreviousReplies(String(message._id), parentId);
+            }
+
+            const session = await this.sessionModel.findById(sessionId).select('contextWindow');
+            const maxTokens = session?.contextWindow.maxTokens || 4000;
+            const { messages, dropped, tokens } = tokenizer.fitToBudget(
+                [
+                    ...(session?.contextWindow.messages || []),
+                    { role: 'assistant' as const, content, timestamp: new Date() }
+                ],
+                maxTokens
+            );
+
             await this.sessionModel.findByIdAndUpdate(
                 sessionId,
                 {
-                    $push: {
-                        'contextWindow.messages': {
-                            $each: [{
-                                role: 'assistant',
-                                content,
-                                timestamp: new Date()
-                            }],
-                            $slice: -20
-                        }
+                    $set: {
+                        'contextWindow.messages': messages,
+                        'metadata.lastActivity': new Date()
                     },
-                    $inc: { 'metadata.messageCount': 1 },
-                    $set: { 'metadata.lastActivity': new Date() }
+                    $inc: { 'metadata.messageCount': 1 }
                 },
                 { new: true }
             );
 
             logger.info(`💾 Saved assistant message: ${message._id}`);
+
+            // Window is filling up: compress the older turns before they get dropped
+            if (dropped.length > 0 || tokens >= maxTokens * SUMMARY_TRIGGER_RATIO) {
+                await this.addToSummaryQueue({ sessionId, userId });
+            }
+
             return message;
 
         } catch (error) {
@@ -298,9 +612,303 @@ export default class MessageQueue {
         }
     }
 
-    private async processNotification(job: Job): Promise<any> {
+    /**
+     * Compress the older turns of a session's context window into a rolling summary.
+     * The summary is stored as a system message and placed first in the context.
+     */
+    private async processSummaryRequest(job: Job<SummaryJobData>): Promise<any> {
+        const { sessionId, userId } = job.data;
+        const startTime = Date.now();
+
+        try {
+            const session = await this.sessionModel.findById(sessionId);
+            if (!session) {
+                throw new Error(`Session ${sessionId} not found`);
+            }
+
+            const maxTokens = session.contextWindow.maxTokens || 4000;
+            const window = session.contextWindow.messages;
+
+            const previousSummary = window.find(msg => msg.isSummary);
+            const turns = window.filter(msg => msg.role !== 'system');
+
+            // Keep the most recent turns verbatim and summarise everything older
+            const { dropped: olderTurns } = tokenizer.fitToBudget(
+                turns,
+                Math.floor(maxTokens * SUMMARY_KEEP_RATIO)
+            );
+
+            if (olderTurns.length === 0) {
+                logger.debug(`📝 Nothing to summarise for session ${sessionId}`);
+                return { success: true, skipped: true };
+            }
+
+            const { summary } = await this.pythonClient.summarizeConversation({
+                sessionId: session.sessionId,
+                userId,
+                messages: olderTurns.map(msg => ({
+                    role: msg.role,
+                    content: msg.content,
+                    timestamp: msg.timestamp
+                })),
+                previousSummary: previousSummary?.content
+            });
+
+            if (!summary || summary.trim().length === 0) {
+                throw new Error('Empty summary from LLM');
+            }
+
+            const summaryMessage = await this.messageModel.create({
+                sessionId: session._id,
+                userId: new mongoose.Types.ObjectId(userId),
+                role: 'system' as const,
+                content: summary,
+                parentId: null,
+                isActive: true,
+                metadata: {
+                    isSummary: true,
+                    summarizedCount: olderTurns.length,
+                    tokens: tokenizer.countTokens(summary)
+                }
+            });
+
+            // Reload so turns added while the summary was generated are kept
+            const current = await this.sessionModel.findById(sessionId).select('contextWindow');
+            const cutoff = olderTurns[olderTurns.length - 1].timestamp;
+
+            const contextMessages = [
+                ...(current?.contextWindow.messages || [])
+                    .filter(msg => msg.role === 'system' && !msg.isSummary),
+                { role: 'system' as const, content: summary, timestamp: new Date(), isSummary: true },
+                ...(current?.contextWindow.messages || [])
+                    .filter(msg => msg.role !== 'system' && msg.timestamp > cutoff)
+            ];
+
+            await this.sessionModel.findByIdAndUpdate(sessionId, {
+                $set: {
+                    'contextWindow.messages': tokenizer.fitToBudget(contextMessages, maxTokens).messages
+                }
+            });
+
+            if (this.socketManager) {
+                this.socketManager.emitToSession(session.sessionId, 'session:summarized', {
+                    messageId: summaryMessage._id,
+                    summarizedCount: olderTurns.length,
+                    timestamp: Date.now()
+                });
+            }
+
+            logger.info(`📝 Summarised ${olderTurns.length} message(s) for session ${session.sessionId}`, {
+                duration: Date.now() - startTime
+            });
+
+            return {
+                success: true,
+                messageId: summaryMessage._id,
+                summarizedCount: olderTurns.length
+            };
+        } catch (error) {
+            logger.error('❌ Error summarising session context', {
+                sessionId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Trim the context sent to the Python API so context, prompt and system prompt
+     * fit the session's budget. Returns null when the prompt and system prompt
+     * alone are over it: no context can make that request fit.
+     */
+    private fitContextToBudget(
+        messages: any[] = [],
+        prompt: string,
+        maxTokens: number = 4000,
+        systemPrompt?: string
+    ): any[] | null {
+        const reserved = tokenizer.countTokens(prompt) + tokenizer.countTokens(systemPrompt || '');
+        if (reserved > maxTokens) {
+            return null;
+        }
+
+        const budget = maxTokens - reserved;
+        const { messages: fitted, dropped } = tokenizer.fitToBudget(messages, budget);
+
+        // fitToBudget always keeps system messages and the newest message: drop the newest
+        // turn first, then the oldest pinned summaries, until the request fits
+        while (fitted.length > 0 && tokenizer.countMessageTokens(fitted) > budget) {
+            const newestTurn = fitted.map(msg => msg.role !== 'system').lastIndexOf(true);
+            dropped.push(...fitted.splice(newestTurn !== -1 ? newestTurn : 0, 1));
+        }
+
+        if (dropped.length > 0) {
+            logger.debug(`✂️  Dropped ${dropped.length} context message(s) to fit ${maxTokens} tokens`);
+        }
+
+        return fitted;
+    }
+
+    /**
+     * Persist whatever was generated before a cancellation and notify the session
+     */
+    private async finishCancelledGeneration(
+        sessionObjectId: string,
+        sessionId: string,
+        userId: string,
+        messageId: string,
+        partialContent: string,
+        metadata: { llmModel?: string; tokens?: number } = {}
+    ) {
+        let savedMessage = null;
+
+        if (partialContent.trim().length > 0) {
+            savedMessage = await this.saveAssistantMessage(
+                sessionObjectId,
+                userId,
+                messageId,
+                partialContent,
+                { ...metadata, truncated: true }
+            );
+        }
+
+        if (this.socketManager) {
+            this.socketManager.emitToSession(sessionId, 'message:cancelled', {
+                replyTo: messageId,
+                messageId: savedMessage?._id,
+                content: partialContent,
+                truncated: !!savedMessage,
+                timestamp: Date.now()
+            });
+        }
+
+        logger.info(`🛑 LLM generation cancelled for message ${messageId}`, {
+            sessionId,
+            savedMessageId: savedMessage?._id
+        });
+
+        return {
+            success: false,
+            cancelled: true,
+            messageId: savedMessage?._id
+        };
+    }
+
+    /**
+     * Abort a generation running on this instance
+     */
+    private abortGeneration(messageId: string): boolean {
+        const generation = this.activeGenerations.get(messageId);
+        if (!generation || generation.cancelled) {
+            return false;
+        }
+
+        generation.cancelled = true;
+        generation.controller.abort();
+        return true;
+    }
+
+    /**
+     * Cancel queued or in-flight generations for a session.
+     * When messageId is given only the reply to that user message is cancelled.
+     * Returns the number of generations that were stopped.
+     */
+    public async cancelGeneration(sessionId: string, messageId?: string): Promise<number> {
+        const matches = (jobSessionId: string, jobMessageId: string) =>
+            jobSessionId === sessionId && (!messageId || jobMessageId === messageId);
+
+        let cancelled = 0;
+
+        // Generations running on this instance (including fallback mode)
+        for (const [id, generation] of this.activeGenerations) {
+            if (matches(generation.sessionId, id) && this.abortGeneration(id)) {
+                cancelled++;
+            }
+        }
+
+        if (!this.llmQueue) {
+            return cancelled;
+        }
+
+        try {
+            const pendingJobs = await this.llmQueue.getJobs(['waiting', 'delayed', 'paused']);
+            for (const job of pendingJobs) {
+                if (!job || !matches(job.data.sessionId, job.data.messageId)) continue;
+
+                await job.remove();
+                cancelled++;
+
+                if (this.socketManager) {
+                    this.socketManager.emitToSession(sessionId, 'message:cancelled', {
+                        replyTo: job.data.messageId,
+                        content: '',
+                        truncated: false,
+                        timestamp: Date.now()
+                    });
+                }
+            }
+
+            const activeJobs = await this.llmQueue.getJobs(['active']);
+            for (const job of activeJobs) {
+                if (!job || !matches(job.data.sessionId, job.data.messageId)) continue;
+
+                // Running on another instance: ask it to abort over Redis
+                if (!this.activeGenerations.has(job.data.messageId)) {
+                    await this.redisService.publish(CANCEL_CHANNEL, { messageId: job.data.messageId });
+                    cancelled++;
+                }
+            }
+        } catch (error) {
+            logger.error('❌ Failed to cancel queued LLM jobs:', error);
+        }
+
+        logger.info(`🛑 Cancelled ${cancelled} generation(s) for session ${sessionId}`, { messageId });
+        return cancelled;
+    }
+
+    /**
+     * Register the repeatable housekeeping jobs. Bull de-duplicates repeatable
+     * jobs by name and schedule, so every instance can safely call this.
+     */
+    private scheduleMaintenance() {
+        this.maintenanceQueue?.add(
+            { type: 'account_purge' } as MaintenanceJobData,
+            { repeat: { cron: config.accountDeletion.purgeCron }, jobId: 'account_purge' }
+        ).catch(error => logger.error('❌ Failed to schedule account purge job:', error));
+
+        this.maintenanceQueue?.add(
+            { type: 'call_sweep' } as MaintenanceJobData,
+            { repeat: { cron: callConfig.sweepCron }, jobId: 'call_sweep' }
+        ).catch(error => logger.error('❌ Failed to schedule call sweep job:', error));
+    }
+
+    private async processMaintenance(job: Job<MaintenanceJobData>): Promise<any> {
+        switch (job.data.type) {
+            case 'account_purge': {
+                const purged = await accountDeletionService.purgeDueAccounts();
+                const expiredExports = await dataExportService.cleanupExpiredExports();
+                return { success: true, purged, expiredExports };
+            }
+            case 'call_sweep': {
+                const closed = await callService.sweepStaleCalls();
+                closed.forEach(call => this.socketManager?.emitCallUpdate(call));
+                return { success: true, closed: closed.length };
+            }
+            default: {
+                // Fails to compile when a maintenance job isn't handled above
+                const unhandled: never = job.data.type;
+                logger.warn(`⚠️  Unknown maintenance job: ${unhandled}`, { data: job.data });
+                return { success: false };
+            }
+        }
+    }
+
+    private async processNotification(job: Job<NotificationJobData>): Promise<any> {
         try {
-            logger.info(`📧 Processing notification: ${job.id}`);
+            logger.info(`📧 Processing notification: ${job.id}`, { type: job.data.type });
+
+            await this.runNotification(job.data);
+
             return { success: true };
         } catch (error) {
             logger.error('❌ Notification processing failed:', error);
@@ -308,6 +916,29 @@ export default class MessageQueue {
         }
     }
 
+    /**
+     * The notification work itself, shared by the queue processor and the
+     * in-process fallback used when the queue is unavailable
+     */
+    private async runNotification(data: NotificationJobData): Promise<void> {
+        switch (data.type) {
+            case 'data_export':
+                await dataExportService.processExport(data.exportId);
+                break;
+            default: {
+                // Fails to compile when a notification type isn't handled above
+                const unhandled: never = data.type;
+                logger.warn(`⚠️  Unknown notification type: ${unhandled}`, { data });
+            }
+        }
+    }
+
+    private runNotificationInBackground(data: NotificationJobData): void {
+        this.runNotification(data).catch(error => {
+            logger.error(`❌ Notification processing failed (${data.type}):`, error);
+        });
+    }
+
     public async addToLLMQueue(data: LLMJobData): Promise<Job | null> {
         try {
             if (this.fallbackMode || !this.llmQueue) {
@@ -336,16 +967,34 @@ export default class MessageQueue {
         }
     }
 
-    public async addToNotificationQueue(data: any): Promise<Job | null> {
+    public async addToSummaryQueue(data: SummaryJobData): Promise<Job | null> {
+        try {
+            if (this.fallbackMode || !this.summaryQueue) {
+                // Don't hold up the reply; summarise in the background
+                this.processSummaryRequest({ data } as Job).catch(() => undefined);
+                return null;
+            }
+
+            // One pending summary per session is enough
+            return await this.summaryQueue.add(data, { jobId: `summary:${data.sessionId}` });
+        } catch (error) {
+            logger.error('❌ Failed to add job to summary queue:', error);
+            return null;
+        }
+    }
+
+    public async addToNotificationQueue(data: NotificationJobData): Promise<Job | null> {
         try {
             if (this.fallbackMode || !this.notificationQueue) {
-                logger.warn('⚠️  Notification queue unavailable');
+                logger.warn('⚠️  Notification queue unavailable, processing in background');
+                this.runNotificationInBackground(data);
                 return null;
             }
 
             return await this.notificationQueue.add(data);
         } catch (error) {
             logger.error('❌ Failed to add notification to queue:', error);
+            this.runNotificationInBackground(data);
             return null;
         }
     }
@@ -398,10 +1047,20 @@ export default class MessageQueue {
                 logger.info('✅ LLM queue closed');
             }
 
+            if (this.summaryQueue) {
+                await this.summaryQueue.close();
+                logger.info('✅ Summary queue closed');
+            }
+
             if (this.notificationQueue) {
                 await this.notificationQueue.close();
                 logger.info('✅ Notification queue closed');
             }
+
+            if (this.maintenanceQueue) {
+                await this.maintenanceQueue.close();
+                logger.info('✅ Maintenance queue closed');
+            }
         } catch (error) {
             logger.error('❌ Error during queue shutdown:', error);
         }
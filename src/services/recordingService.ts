@@ -0,0 +1,57 @@
+// src/services/recordingService.ts
+import crypto from 'crypto';
+import config from '@/config/env';
+import logger from '@/config/logger';
+import storage from '@/services/storage';
+import { IMessageAudio } from '@/models/Message';
+import { audioMimeType } from '@/utils/audio';
+
+/**
+ * Raw voice recordings behind user messages. Keys are grouped by user so an
+ * account's recordings can be removed with a single prefix delete.
+ */
+class RecordingService {
+    /**
+     * Store a recording; returns its storage key
+     */
+    async save(userId: string, sessionId: string, audio: Buffer, format: string): Promise<string> {
+        const extension = format.replace(/[^a-z0-9]/gi, '') || 'bin';
+        const key = `${this.userPrefix(userId)}${sessionId}/${crypto.randomUUID()}.${extension}`;
+
+        await storage.put(key, audio, audioMimeType(format));
+
+        return key;
+    }
+
+    /**
+     * Short-lived URL for playing a recording back
+     */
+    async getPlaybackUrl(audio: IMessageAudio & { storageKey: string }): Promise<{ url: string; expiresAt: Date }> {
+        const expiresInSeconds = config.storage.signedUrlTtlSeconds;
+
+        const url = await storage.getSignedUrl(audio.storageKey, {
+            expiresInSeconds,
+            contentType: audioMimeType(audio.format)
+        });
+
+        return { url, expiresAt: new Date(Date.now() + expiresInSeconds * 1000) };
+    }
+
+    async remove(storageKey: string): Promise<void> {
+        try {
+            await storage.delete(storageKey);
+        } catch (error) {
+            logger.error('Failed to remove recording:', error);
+        }
+    }
+
+    async removeUserRecordings(userId: string): Promise<void> {
+        await storage.deletePrefix(this.userPrefix(userId));
+    }
+
+    private userPrefix(userId: string): string {
+        return `recordings/${userId.replace(/[^a-zA-Z0-9]/g, '')}/`;
+    }
+}
+
+export default new RecordingService();
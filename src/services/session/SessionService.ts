@@ -1,14 +1,46 @@
 import { v4 as uuidv4 } from 'uuid';
 import logger from '@/config/logger';
-import Session, { ISession } from '@/models/Session';
-import Message, { IMessageData } from '@/models/Message';
+import Session, { ISession, ITutorConfig } from '@/models/Session';
+import Message, { IMessage, IMessageData } from '@/models/Message';
 import mongoose from 'mongoose';
+import tokenizer from '@/utils/tokenizer';
+import TutorTemplate from '@/models/TutorTemplate';
+import { Permission, hasPermission } from '@/config/permissions';
+import { UserRole } from '@/types';
+
+// How a user may see a session: the student who owns it, the tutor whose template it uses, or an admin
+export type SessionAccess = 'owner' | 'tutor' | 'admin';
+
+// Why a regeneration request was refused; callers map it to an HTTP status or socket error
+export type RegenerationError = 'MESSAGE_NOT_FOUND' | 'INVALID_MESSAGE' | 'SESSION_INACTIVE' | 'PROMPT_NOT_FOUND';
+
+export type RegenerationPlan =
+    | {
+        ok: true;
+        session: ISession;
+        reply: IMessage;
+        prompt: IMessage;
+        // LLM job answering the prompt again, with the conversation as it was when it was sent
+        job: { sessionId: string; userId: string; messageId: string; content: string; context: any };
+    }
+    | { ok: false; code: RegenerationError; message: string };
+
+// Tutor settings a session's template decides; the student may still change language and voice mode
+export const TEMPLATE_CONTROLLED_FIELDS = ['subject', 'gradeLevel', 'teachingStyle', 'systemPrompt', 'allowedTools'] as const;
+
+// Legacy messages have no isActive flag and count as part of the active branch
+const ACTIVE_BRANCH = { isActive: { $ne: false } };
+
+// Roles that can have sibling versions (edits and regenerations)
+const VERSIONED_ROLES: IMessage['role'][] = ['user', 'assistant'];
 
 export default class SessionService {
     async createSession(
         userId: string,
         topic?: string,
-        metadata?: Record<string, any>
+        metadata?: Record<string, any>,
+        tutorConfig?: Partial<ITutorConfig>,
+        templateId?: string
     ): Promise<ISession> {
         const session = await Session.create({
             userId,
@@ -24,7 +56,9 @@ export default class SessionService {
                 messageCount: 0,
                 topic,
                 ...metadata
-            }
+            },
+            tutorConfig,
+            templateId
         });
 
         logger.info(`Session created: ${session.sessionId} for user: ${userId}`);
@@ -35,6 +69,32 @@ export default class SessionService {
         return Session.findOne({ sessionId });
     }
 
+    async getSessionById(id: mongoose.Types.ObjectId | string): Promise<ISession | null> {
+        return Session.findById(id);
+    }
+
+    async getSessionAccess(
+        session: ISession,
+        user: { userId: string; role?: UserRole }
+    ): Promise<SessionAccess | null> {
+        if (session.userId.toString() === user.userId) {
+            return 'owner';
+        }
+
+        if (session.templateId && hasPermission(user.role, Permission.TEMPLATE_MANAGE)) {
+            const authored = await TutorTemplate.exists({ _id: session.templateId, createdBy: user.userId });
+            if (authored) {
+                return 'tutor';
+            }
+        }
+
+        if (hasPermission(user.role, Permission.SESSION_READ_ANY)) {
+            return 'admin';
+        }
+
+        return null;
+    }
+
     async resumeSession(
         sessionId: string,
         userId: string
@@ -53,6 +113,37 @@ export default class SessionService {
         return null;
     }
 
+    /**
+     * Update the tutor configuration mid-session; omitted fields are left unchanged
+     */
+    async updateTutorConfig(
+        sessionId: string,
+        userId: string,
+        tutorConfig: Partial<ITutorConfig>
+    ): Promise<ISession | null> {
+        const updates: Record<string, any> = {};
+        for (const [key, value] of Object.entries(tutorConfig)) {
+            if (value !== undefined) {
+                updates[`tutorConfig.${key}`] = value;
+            }
+        }
+
+        // Template-controlled settings can only be changed on sessions without a template
+        const touchesTemplate = TEMPLATE_CONTROLLED_FIELDS.some(field => tutorConfig[field] !== undefined);
+
+        const session = await Session.findOneAndUpdate(
+            { sessionId, userId, status: { $ne: 'ended' }, ...(touchesTemplate && { templateId: null }) },
+            { $set: { ...updates, 'metadata.lastActivity': new Date() } },
+            { new: true, runValidators: true }
+        );
+
+        if (session) {
+            logger.info(`Tutor config updated for session: ${sessionId}`);
+        }
+
+        return session;
+    }
+
     async endSession(sessionId: string, userId: string): Promise<void> {
         await Session.findOneAndUpdate(
             { sessionId, userId },
@@ -69,7 +160,8 @@ export default class SessionService {
         sessionId: string,
         userId: string,
         role: 'user' | 'assistant' | 'system',
-        content: string
+        content: string,
+        metadata: IMessageData['metadata'] = {}
     ): Promise<IMessageData> {
         const session = await Session.findOne({ sessionId });
 
@@ -77,26 +169,49 @@ export default class SessionService {
             throw new Error('Session not found');
         }
 
+        // Thread the new message onto the tip of the active branch
+        const previous = await Message.findOne({
+            sessionId: session._id,
+            role: { $ne: 'system' },
+            ...ACTIVE_BRANCH
+        })
+            .sort({ createdAt: -1 })
+            .select('_id')
+            .lean();
+        const parentId = previous?._id ?? null;
+
+        // An edited message lands next to the original it replaces
+        const existingVersions = await Message.countDocuments({
+            sessionId: session._id,
+            parentId,
+            role,
+            version: { $exists: true }
+        });
+
         const message = await Message.create({
             sessionId: session._id,
             userId: new mongoose.Types.ObjectId(userId),
             role,
             content,
+            parentId,
+            version: existingVersions + 1,
+            isActive: true,
             metadata: {
                 latency: undefined,
                 llmModel: undefined,
                 tokens: undefined,
-                confidence: undefined
+                confidence: undefined,
+                ...metadata
             }
         });
 
         const newMessage = { role, content, timestamp: new Date() };
-        const maxMessages = 20;
 
-        let messages = [...session.contextWindow.messages, newMessage];
-        if (messages.length > maxMessages) {
-            messages = messages.slice(-maxMessages);
-        }
+        // Keep the context window inside its token budget, dropping the oldest turns first
+        const { messages } = tokenizer.fitToBudget(
+            [...session.contextWindow.messages, newMessage],
+            session.contextWindow.maxTokens
+        );
 
         await Session.findByIdAndUpdate(session._id, {
             $set: {
@@ -113,6 +228,9 @@ export default class SessionService {
             userId: message.userId,
             role: message.role,
             content: message.content,
+            parentId: message.parentId,
+            version: message.version,
+            isActive: message.isActive,
             metadata: message.metadata,
             createdAt: message.createdAt,
             updatedAt: message.updatedAt
@@ -130,15 +248,52 @@ export default class SessionService {
             throw new Error('Session not found');
         }
 
-        // ✅ Single aggregation query
+        // ✅ Single aggregation query over the active branch
         const [result] = await Message.aggregate([
-            { $match: { sessionId: session._id } },
+            { $match: { sessionId: session._id, ...ACTIVE_BRANCH } },
             {
                 $facet: {
                     messages: [
                         { $sort: { createdAt: -1 } },
                         { $skip: offset },
-                        { $limit: limit }
+                        { $limit: limit },
+                        // Count sibling versions so clients can offer the alternatives. Only user and
+                        // assistant turns have versions; summaries and other system messages share a
+                        // null parent without being alternatives of each other.
+                        {
+                            $lookup: {
+                                from: Message.collection.name,
+                                let: { parentId: '$parentId', role: '$role' },
+                                pipeline: [
+                                    {
+                                        $match: {
+                                            sessionId: session._id,
+                                            role: { $in: VERSIONED_ROLES },
+                                            version: { $exists: true },
+                                            $expr: {
+                                                $and: [
+                                                    { $eq: ['$parentId', '$$parentId'] },
+                                                    { $eq: ['$role', '$$role'] }
+                                                ]
+                                            }
+                                        }
+                                    },
+                                    { $count: 'count' }
+                                ],
+                                as: 'siblings'
+                            }
+                        },
+                        {
+                            $addFields: {
+                                alternatives: {
+                                    $max: [
+                                        0,
+                                        { $subtract: [{ $ifNull: [{ $first: '$siblings.count' }, 1] }, 1] }
+                                    ]
+                                }
+                            }
+                        },
+                        { $project: { siblings: 0 } }
                     ],
                     totalCount: [
                         { $count: 'count' }
@@ -157,6 +312,203 @@ export default class SessionService {
         };
     }
 
+    /**
+     * Get every version of a message (the message and its siblings), oldest first
+     */
+    async getMessageVersions(message: IMessage): Promise<IMessageData[]> {
+        if (!VERSIONED_ROLES.includes(message.role)) {
+            return [message.toObject<IMessageData>()];
+        }
+
+        return Message.find({
+            sessionId: message.sessionId,
+            parentId: message.parentId ?? null,
+            role: message.role
+        })
+            .sort({ version: 1, createdAt: 1 })
+            .lean<IMessageData[]>();
+    }
+
+    /**
+     * Get the thread that continues from a message, following the latest version
+     * at each step. Works for inactive branches left behind by edits and regenerations.
+     */
+    async getBranchFrom(message: IMessage, limit: number = 200): Promise<IMessageData[]> {
+        const candidates = await Message.find({
+            sessionId: message.sessionId,
+            createdAt: { $gte: message.createdAt }
+        })
+            .sort({ createdAt: 1 })
+            .lean<IMessageData[]>();
+
+        const children = new Map<string, IMessageData>();
+        for (const candidate of candidates) {
+            if (!candidate.parentId) continue;
+
+            const key = candidate.parentId.toString();
+            const current = children.get(key);
+            if (!current || (candidate.version ?? 1) >= (current.version ?? 1)) {
+                children.set(key, candidate);
+            }
+        }
+
+        const branch: IMessageData[] = [];
+        let cursor = candidates.find(candidate => candidate._id.equals(message._id as mongoose.Types.ObjectId));
+
+        while (cursor && branch.length < limit) {
+            branch.push(cursor);
+            cursor = children.get(cursor._id.toString());
+        }
+
+        return branch;
+    }
+
+    /**
+     * Find the user message an assistant reply answers
+     */
+    async getPromptForReply(reply: IMessage): Promise<IMessage | null> {
+        if (reply.parentId) {
+            return Message.findById(reply.parentId);
+        }
+
+        // Replies saved before threading existed: use the closest earlier user message
+        return Message.findOne({
+            sessionId: reply.sessionId,
+            role: 'user',
+            createdAt: { $lte: reply.createdAt },
+            ...ACTIVE_BRANCH
+        }).sort({ createdAt: -1 });
+    }
+
+    /**
+     * Check that a user can regenerate one of their assistant replies and build
+     * the LLM job for it. Shared by the REST and socket entry points.
+     */
+    async prepareRegeneration(messageId: string, userId: string): Promise<RegenerationPlan> {
+        const reply = mongoose.isValidObjectId(messageId)
+            ? await Message.findOne({ _id: messageId, userId })
+            : null;
+
+        if (!reply) {
+            return { ok: false, code: 'MESSAGE_NOT_FOUND', message: 'Message not found' };
+        }
+
+        if (reply.role !== 'assistant') {
+            return { ok: false, code: 'INVALID_MESSAGE', message: 'Only assistant messages can be regenerated' };
+        }
+
+        // Its conversation is no longer the session's; rebuilding it from the active branch would mix the two
+        if (reply.isActive === false) {
+            return { ok: false, code: 'INVALID_MESSAGE', message: 'Only replies on the active branch can be regenerated' };
+        }
+
+        const session = await this.getSessionById(reply.sessionId);
+
+        if (!session || session.status !== 'active') {
+            return { ok: false, code: 'SESSION_INACTIVE', message: 'Session is not active' };
+        }
+
+        const prompt = await this.getPromptForReply(reply);
+
+        if (!prompt) {
+            return { ok: false, code: 'PROMPT_NOT_FOUND', message: 'Original prompt not found' };
+        }
+
+        // The conversation as it was when the prompt was sent
+        const history = await this.getHistoryAt(session, prompt);
+
+        return {
+            ok: true,
+            session,
+            reply,
+            prompt,
+            job: {
+                sessionId: session.sessionId,
+                userId,
+                messageId: String(prompt._id),
+                content: prompt.content,
+                context: this.buildLLMContext(session, history.slice(0, -1))
+            }
+        };
+    }
+
+    /**
+     * The active branch as it was at a message, oldest first: up to and including
+     * the message, or excluding it when keepMessage is false. Nothing is changed;
+     * see restoreContextWindow.
+     */
+    async getHistoryAt(
+        session: ISession,
+        message: IMessage,
+        keepMessage: boolean = true
+    ): Promise<IMessageData[]> {
+        return Message.find({
+            sessionId: session._id,
+            ...ACTIVE_BRANCH,
+            createdAt: keepMessage ? { $lte: message.createdAt } : { $lt: message.createdAt }
+        })
+            .sort({ createdAt: 1 })
+            .lean<IMessageData[]>();
+    }
+
+    /**
+     * Rebuild the session's context window from a slice of the conversation, once
+     * the branch it belongs to is the active one (after an edit, or when a
+     * regenerated reply is saved). A regeneration that fails never gets here, so
+     * the session keeps its current window.
+     */
+    async restoreContextWindow(session: ISession, history: IMessageData[]): Promise<void> {
+        // The latest rolling summary before this point stays pinned at the front
+        const summary = [...history].reverse().find(msg => msg.metadata?.isSummary);
+        const { messages: contextMessages } = tokenizer.fitToBudget(
+            [
+                ...(summary
+                    ? [{ role: 'system' as const, content: summary.content, timestamp: summary.createdAt, isSummary: true }]
+                    : []),
+                ...history
+                    .filter(msg => msg.role !== 'system')
+                    .map(msg => ({ role: msg.role, content: msg.content, timestamp: msg.createdAt }))
+            ],
+            session.contextWindow.maxTokens
+        );
+
+        await Session.findByIdAndUpdate(session._id, {
+            $set: {
+                'contextWindow.messages': contextMessages,
+                'metadata.lastActivity': new Date()
+            }
+        });
+
+        logger.info(`Session ${session.sessionId} context window restored to ${history.length} message(s)`);
+    }
+
+    /**
+     * Move the active branch off a message and everything after it (e.g. when the
+     * message is edited). They are marked inactive rather than deleted so the old
+     * branch stays readable.
+     */
+    async deactivateFrom(session: ISession, message: IMessage): Promise<void> {
+        await Message.updateMany(
+            { sessionId: session._id, ...ACTIVE_BRANCH, createdAt: { $gte: message.createdAt } },
+            { $set: { isActive: false } }
+        );
+    }
+
+    /**
+     * Build the LLM job context from a slice of the conversation
+     */
+    buildLLMContext(session: ISession, history: IMessageData[]) {
+        return {
+            messages: history.map(msg => ({
+                role: msg.role,
+                content: msg.content,
+                timestamp: msg.createdAt
+            })),
+            sessionId: session.sessionId,
+            topic: session.metadata?.topic
+        };
+    }
+
     async getUserSessions(
         userId: string,
         status?: string
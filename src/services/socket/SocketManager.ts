@@ -4,12 +4,21 @@ import { Server as HTTPServer } from 'http';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { createClient } from 'redis';
 import RedisService from '../external/RedisService';
+import auditService from '../auditService';
+import { AuditAction } from '@/models/AuditLog';
+import { ICall } from '@/models/Call';
 import SessionService from '../session/SessionService';
 import PythonAPIClient from '../external/PythonAPIClient';
 import { MessageHandler } from './handlers/MessageHandler';
+import { VoiceStreamHandler } from './handlers/VoiceStreamHandler';
+import { CallHandler } from './handlers/CallHandler';
+import MessageQueue from '../queue/MessageQueue';
 import logger from '@/config/logger';
+import config from '@/config/env';
 import { verifySocketToken } from '@/middlewares/authMiddleware';
+import { Permission, SOCKET_EVENT_PERMISSIONS, hasPermission } from '@/config/permissions';
 import { LRUCache } from 'lru-cache';
+import { tutorConfigSchema } from '@/validators/sessionValidator';
 
 interface SessionCache {
     userId: string;
@@ -23,6 +32,9 @@ export class SocketManager {
     private sessionService: SessionService;
     private pythonClient: PythonAPIClient;
     private messageHandler: MessageHandler;
+    private voiceStreamHandler: VoiceStreamHandler;
+    private callHandler: CallHandler;
+    private messageQueue: MessageQueue | null = null;
     private sessionCache: LRUCache<string, SessionCache>;
     private activeConnections: Map<string, Set<string>> = new Map();
 
@@ -40,7 +52,8 @@ export class SocketManager {
             upgradeTimeout: 10000,
             pingInterval: 25000,
             pingTimeout: 20000,
-            maxHttpBufferSize: 1e6,
+            // Room for a full voice:send clip once base64-encoded
+            maxHttpBufferSize: Math.max(1e6, Math.ceil(config.voice.maxAudioBytes * 4 / 3) + 64 * 1024),
             allowEIO3: true,
             perMessageDeflate: {
                 threshold: 1024,
@@ -69,7 +82,9 @@ export class SocketManager {
         this.redisService = new RedisService();
         this.sessionService = new SessionService();
         this.pythonClient = new PythonAPIClient();
-        this.messageHandler = new MessageHandler();
+        this.messageHandler = new MessageHandler(this.pythonClient);
+        this.voiceStreamHandler = new VoiceStreamHandler(this.pythonClient, this.messageHandler);
+        this.callHandler = new CallHandler(this.io, this.redisService);
 
         logger.info('✅ All services initialized');
 
@@ -82,6 +97,12 @@ export class SocketManager {
         logger.info('✅ SocketManager fully initialized');
     }
 
+    public setMessageQueue(messageQueue: MessageQueue) {
+        this.messageQueue = messageQueue;
+        this.messageHandler.setMessageQueue(messageQueue);
+        logger.info('✅ MessageQueue linked to SocketManager');
+    }
+
     private async setupRedisAdapter() {
         try {
             logger.info('🔄 Setting up Redis adapter...');
@@ -196,6 +217,23 @@ export class SocketManager {
                 return;
             }
 
+            // Check every incoming event against the permission matrix
+            socket.use(([event], next) => {
+                const permission = SOCKET_EVENT_PERMISSIONS[event];
+
+                if (permission && !hasPermission(socket.data.user?.role, permission)) {
+                    logger.warn(`⛔ User ${userId} lacks '${permission}' for '${event}'`);
+                    socket.emit('error', {
+                        code: 'FORBIDDEN',
+                        message: 'You do not have permission to perform this action',
+                        event
+                    });
+                    return;
+                }
+
+                next();
+            });
+
             // Track connection
             if (!this.activeConnections.has(userId)) {
                 this.activeConnections.set(userId, new Set());
@@ -204,8 +242,11 @@ export class SocketManager {
 
             logger.info(`📊 Active connections for user ${userId}: ${this.activeConnections.get(userId)!.size}`);
 
-            // Join user's personal room
+            // Join user's personal room, and the device's so signing it out reaches every instance
             socket.join(`user:${userId}`);
+            if (socket.data.user?.deviceId) {
+                socket.join(this.deviceRoom(userId, socket.data.user.deviceId));
+            }
             await this.redisService.setPresence(userId, 'online');
 
             // Emit connection success
@@ -245,6 +286,37 @@ export class SocketManager {
                 }
             });
 
+            // === STREAMED VOICE INPUT ===
+            socket.on('voice:start', async (data: any) => {
+                logger.info(`🎙️  Received 'voice:start' from user ${userId}`);
+                await this.voiceStreamHandler.handleStart(socket, data);
+            });
+
+            // Chunks arrive many times a second, so they are not logged
+            socket.on('voice:chunk', (data: any) => {
+                this.voiceStreamHandler.handleChunk(socket, data);
+            });
+
+            socket.on('voice:end', async (data: any) => {
+                logger.info(`🎙️  Received 'voice:end' from user ${userId}`);
+                await this.voiceStreamHandler.handleEnd(socket, data);
+            });
+
+            socket.on('voice:cancel', (data: any) => {
+                logger.info(`🎙️  Received 'voice:cancel' from user ${userId}`);
+                this.voiceStreamHandler.handleCancel(socket, data);
+            });
+
+            socket.on('message:regenerate', async (data: any) => {
+                logger.info(`🔁 Received 'message:regenerate' from user ${userId}`, data);
+                await this.messageHandler.handleRegenerate(socket, data);
+            });
+
+            socket.on('message:cancel', async (data: any) => {
+                logger.info(`🛑 Received 'message:cancel' from user ${userId}`, data);
+                await this.handleMessageCancel(socket, data);
+            });
+
             // === TYPING INDICATORS ===
             socket.on('typing:start', (data: any) => {
                 logger.info(`⌨️  User ${userId} started typing`);
@@ -277,25 +349,47 @@ export class SocketManager {
                 await this.handleSessionEnd(socket, data);
             });
 
-            // === WEBRTC SIGNALING ===
-            socket.on('webrtc:offer', (data: any) => {
+            // === VOICE CALLS ===
+            socket.on('call:start', async (data: any) => {
+                logger.info(`📞 Call requested by user ${userId}`, data);
+                await this.callHandler.handleStart(socket, data);
+            });
+
+            socket.on('call:accept', async (data: any) => {
+                logger.info(`📞 Call accepted by user ${userId}`, data);
+                await this.callHandler.handleAccept(socket, data);
+            });
+
+            socket.on('call:reject', async (data: any) => {
+                logger.info(`📞 Call rejected by user ${userId}`, data);
+                await this.callHandler.handleReject(socket, data);
+            });
+
+            socket.on('call:end', async (data: any) => {
+                logger.info(`📴 Call ended by user ${userId}`, data);
+                await this.callHandler.handleEnd(socket, data);
+            });
+
+            // === WEBRTC SIGNALING (within an accepted call) ===
+            socket.on('webrtc:offer', async (data: any) => {
                 logger.info(`📞 WebRTC offer from user ${userId}`);
-                this.handleWebRTCSignal(socket, 'offer', data);
+                await this.callHandler.handleSignal(socket, 'offer', data);
             });
 
-            socket.on('webrtc:answer', (data: any) => {
+            socket.on('webrtc:answer', async (data: any) => {
                 logger.info(`📞 WebRTC answer from user ${userId}`);
-                this.handleWebRTCSignal(socket, 'answer', data);
+                await this.callHandler.handleSignal(socket, 'answer', data);
             });
 
-            socket.on('webrtc:ice-candidate', (data: any) => {
+            socket.on('webrtc:ice-candidate', async (data: any) => {
                 logger.info(`🧊 ICE candidate from user ${userId}`);
-                this.handleWebRTCSignal(socket, 'ice-candidate', data);
+                await this.callHandler.handleSignal(socket, 'ice-candidate', data);
             });
 
-            socket.on('webrtc:hangup', (data: any) => {
+            // Older clients hang up with webrtc:hangup
+            socket.on('webrtc:hangup', async (data: any) => {
                 logger.info(`📴 WebRTC hangup from user ${userId}`);
-                this.handleWebRTCHangup(socket, data);
+                await this.callHandler.handleEnd(socket, data);
             });
 
             // === DISCONNECT ===
@@ -314,6 +408,48 @@ export class SocketManager {
         logger.info('✅ Socket.IO event handlers configured - Ready to accept connections!');
     }
 
+    private async handleMessageCancel(socket: Socket, data: any): Promise<void> {
+        try {
+            const { sessionId, messageId } = data || {};
+            const userId = socket.data.user.userId.toString();
+
+            if (!sessionId) {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: 'Session ID is required'
+                });
+                return;
+            }
+
+            const session = await this.sessionService.getSession(sessionId);
+            if (!session) {
+                socket.emit('error', { code: 'SESSION_NOT_FOUND' });
+                return;
+            }
+
+            if (session.userId.toString() !== userId) {
+                socket.emit('error', { code: 'SESSION_ACCESS_DENIED' });
+                return;
+            }
+
+            if (!this.messageQueue) {
+                throw new Error('Message queue not available');
+            }
+
+            const cancelled = await this.messageQueue.cancelGeneration(sessionId, messageId);
+
+            if (cancelled === 0) {
+                socket.emit('error', {
+                    code: 'GENERATION_NOT_FOUND',
+                    message: 'No generation in progress to cancel'
+                });
+            }
+        } catch (error) {
+            logger.error('❌ Error cancelling message', error);
+            socket.emit('error', { code: 'MESSAGE_CANCEL_ERROR' });
+        }
+    }
+
     private handleTyping(socket: Socket, data: any, isTyping: boolean): void {
         const { sessionId } = data;
         const userId = socket.data.user.userId.toString();
@@ -339,11 +475,6 @@ export class SocketManager {
                     return;
                 }
 
-                if (session.userId.toString() !== userId) {
-                    socket.emit('error', { code: 'SESSION_ACCESS_DENIED' });
-                    return;
-                }
-
                 cachedSession = {
                     userId: session.userId.toString(),
                     status: session.status,
@@ -352,6 +483,29 @@ export class SocketManager {
                 this.sessionCache.set(sessionId, cachedSession);
             }
 
+            // Checked on every join, not just on a cache miss
+            if (cachedSession.userId !== userId) {
+                if (!hasPermission(socket.data.user.role, Permission.SESSION_READ_ANY)) {
+                    socket.emit('error', { code: 'SESSION_ACCESS_DENIED' });
+                    return;
+                }
+
+                await auditService.record({
+                    action: AuditAction.SESSION_ACCESS,
+                    actor: {
+                        userId,
+                        email: socket.data.user.email,
+                        role: socket.data.user.role
+                    },
+                    targetUserId: cachedSession.userId,
+                    targetType: 'session',
+                    targetId: sessionId,
+                    ipAddress: socket.handshake.address,
+                    userAgent: socket.handshake.headers['user-agent'],
+                    metadata: { resource: 'socket' }
+                });
+            }
+
             socket.join(`session:${sessionId}`);
 
             socket.emit('session:joined', {
@@ -375,12 +529,26 @@ export class SocketManager {
     private async handleSessionCreate(socket: Socket, data: any): Promise<void> {
         try {
             const userId = socket.data.user.userId.toString();
-            const { topic, metadata } = data;
+            const { topic, metadata, config } = data || {};
+
+            // Same limits as POST /api/sessions
+            const parsedConfig = tutorConfigSchema.optional().safeParse(config);
+
+            if (!parsedConfig.success) {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: parsedConfig.error.issues
+                        .map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+                        .join('; ')
+                });
+                return;
+            }
 
             const session = await this.sessionService.createSession(
                 userId,
                 topic,
-                metadata
+                metadata,
+                parsedConfig.data
             );
 
             this.sessionCache.set(session.sessionId, {
@@ -393,6 +561,7 @@ export class SocketManager {
 
             socket.emit('session:created', {
                 sessionId: session.sessionId,
+                config: session.tutorConfig,
                 status: session.status,
                 createdAt: session.createdAt
             });
@@ -422,33 +591,12 @@ export class SocketManager {
         }
     }
 
-    private handleWebRTCSignal(socket: Socket, type: string, data: any): void {
-        const { sessionId, to, ...payload } = data;
-        const userId = socket.data.user.userId.toString();
-
-        const event = `webrtc:${type}`;
-        const message = { from: userId, ...payload };
-
-        if (to) {
-            this.io.to(`user:${to}`).emit(event, message);
-        } else {
-            socket.to(`session:${sessionId}`).emit(event, message);
-        }
-    }
-
-    private handleWebRTCHangup(socket: Socket, data: any): void {
-        const { sessionId } = data;
-        const userId = socket.data.user.userId.toString();
-
-        socket.to(`session:${sessionId}`).emit('webrtc:hangup', {
-            from: userId
-        });
-    }
-
     private async handleDisconnect(socket: Socket, reason: string): Promise<void> {
         const socketId = socket.id;
         const userId = socket.data.user?.userId?.toString();
 
+        this.voiceStreamHandler.cleanup(socketId);
+
         if (!userId) {
             logger.warn(`Socket ${socketId} disconnected without userId`);
             return;
@@ -460,6 +608,7 @@ export class SocketManager {
 
             if (userSockets.size === 0) {
                 this.activeConnections.delete(userId);
+                await this.callHandler.handleUserOffline(userId);
 
                 try {
                     await Promise.race([
@@ -509,6 +658,10 @@ export class SocketManager {
         logger.info(`📤 Emitted '${event}' to user ${userId}`);
     }
 
+    public emitCallUpdate(call: ICall): void {
+        this.callHandler.emitCallUpdate(call);
+    }
+
     public emitToSession(sessionId: string, event: string, data: any): void {
         this.io.to(`session:${sessionId}`).emit(event, data);
         logger.info(`📤 Emitted '${event}' to session ${sessionId}`);
@@ -527,6 +680,7 @@ export class SocketManager {
             totalConnections,
             uniqueUsers: this.activeConnections.size,
             cachedSessions: this.sessionCache.size,
+            activeVoiceStreams: this.voiceStreamHandler.getActiveStreamCount(),
             pythonAPIHealthy: this.pythonClient.getHealthStatus()
         };
     }
@@ -539,6 +693,41 @@ export class SocketManager {
         return Array.from(this.activeConnections.get(userId) || []);
     }
 
+    /**
+     * Tell a user's live sockets why they are being dropped, then disconnect them.
+     * Goes through the Redis adapter, so sockets on every instance are dropped.
+     */
+    public async disconnectUser(userId: string, reason: string): Promise<number> {
+        const disconnected = await this.disconnectRoom(`user:${userId}`, reason);
+
+        logger.info(`🔌 Disconnected ${disconnected} socket(s) for user ${userId}`);
+        return disconnected;
+    }
+
+    /**
+     * Disconnect only the sockets opened with one device's access token, on every instance
+     */
+    public async disconnectDevice(userId: string, deviceId: string, reason: string): Promise<number> {
+        const disconnected = await this.disconnectRoom(this.deviceRoom(userId, deviceId), reason);
+
+        logger.info(`🔌 Disconnected ${disconnected} socket(s) for device ${deviceId} of user ${userId}`);
+        return disconnected;
+    }
+
+    private async disconnectRoom(room: string, reason: string): Promise<number> {
+        const sockets = await this.io.in(room).fetchSockets();
+
+        this.io.in(room).emit('auth:revoked', { reason, timestamp: Date.now() });
+        this.io.in(room).disconnectSockets(true);
+
+        return sockets.length;
+    }
+
+    // Device IDs can come from the client, so the room is scoped to the user
+    private deviceRoom(userId: string, deviceId: string): string {
+        return `device:${userId}:${deviceId}`;
+    }
+
     public async shutdown(): Promise<void> {
         logger.info('🛑 Shutting down SocketManager...');
         await this.pythonClient.shutdown();
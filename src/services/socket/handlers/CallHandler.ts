@@ -0,0 +1,355 @@
+// src/services/socket/handlers/CallHandler.ts
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { LRUCache } from 'lru-cache';
+import SessionService from '@/services/session/SessionService';
+import callService from '@/services/callService';
+import RedisService from '@/services/external/RedisService';
+import User from '@/models/User';
+import { ICall } from '@/models/Call';
+import logger from '@/config/logger';
+import { callConfig, getWebRTCConfig } from '@/config/webrtc';
+
+interface ConnectedCall {
+    callerId: string;
+    calleeId: string;
+}
+
+// Tells every instance to forget a call that is no longer connected
+const CALL_EVICT_CHANNEL = 'call:evict';
+
+const CALL_EVENTS: Record<string, string> = {
+    accepted: 'call:accepted',
+    rejected: 'call:rejected',
+    ended: 'call:ended',
+    missed: 'call:missed'
+};
+
+/**
+ * Voice calls between a student and a human tutor (or admin) from inside a
+ * session. Calls are placed with call:start and answered with call:accept;
+ * only then are webrtc:* signals relayed between the two participants.
+ */
+export class CallHandler {
+    private sessionService: SessionService;
+    // Ring timeouts for calls started on this instance
+    private ringTimers: Map<string, NodeJS.Timeout> = new Map();
+    // Connected calls, so ICE candidates don't each cost a database read
+    private connectedCalls: LRUCache<string, ConnectedCall>;
+
+    constructor(
+        private readonly io: SocketIOServer,
+        private readonly redisService: RedisService
+    ) {
+        this.sessionService = new SessionService();
+        this.connectedCalls = new LRUCache({
+            max: 5000,
+            ttl: 1000 * 60
+        });
+
+        // A call that ended on another instance must stop relaying here too
+        this.redisService.subscribe(CALL_EVICT_CHANNEL, (message: string) => {
+            try {
+                const { callId } = JSON.parse(message);
+                this.connectedCalls.delete(callId);
+            } catch (error) {
+                logger.error('❌ Invalid call eviction message:', error);
+            }
+        }).catch(error => {
+            logger.warn('⚠️  Could not subscribe to call evictions; ended calls may relay until their cache entry expires:', error.message);
+        });
+    }
+
+    async handleStart(socket: Socket, data: any): Promise<void> {
+        try {
+            const { sessionId, calleeId } = data || {};
+            const userId = socket.data.user?.userId?.toString();
+            const role = socket.data.user?.role;
+
+            if (!userId) {
+                socket.emit('error', {
+                    code: 'UNAUTHORIZED',
+                    message: 'User not authenticated'
+                });
+                return;
+            }
+
+            if (typeof sessionId !== 'string' || typeof calleeId !== 'string' || !/^[0-9a-fA-F]{24}$/.test(calleeId)) {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: 'Session ID and a valid callee ID are required'
+                });
+                return;
+            }
+
+            if (calleeId === userId) {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: 'You cannot call yourself'
+                });
+                return;
+            }
+
+            const session = await this.sessionService.getSession(sessionId);
+
+            if (!session) {
+                socket.emit('error', {
+                    code: 'SESSION_NOT_FOUND',
+                    message: 'Session not found'
+                });
+                return;
+            }
+
+            if (session.status === 'ended') {
+                socket.emit('error', {
+                    code: 'SESSION_INACTIVE',
+                    message: 'Session has ended'
+                });
+                return;
+            }
+
+            const callee = await User.findById(calleeId).select('name role isActive');
+            const callerAccess = await this.sessionService.getSessionAccess(session, { userId, role });
+            const calleeAccess = callee?.isActive
+                ? await this.sessionService.getSessionAccess(session, { userId: calleeId, role: callee.role })
+                : null;
+
+            // One side must be the student who owns the session, the other a tutor or admin who can see it
+            if (!callerAccess || !calleeAccess || (callerAccess === 'owner') === (calleeAccess === 'owner')) {
+                socket.emit('error', {
+                    code: 'CALL_NOT_ALLOWED',
+                    message: 'You cannot call this user from this session'
+                });
+                return;
+            }
+
+            const calleeSockets = await this.io.in(`user:${calleeId}`).fetchSockets();
+
+            if (calleeSockets.length === 0) {
+                socket.emit('error', {
+                    code: 'CALLEE_UNAVAILABLE',
+                    message: 'User is not online'
+                });
+                return;
+            }
+
+            if (await callService.findActiveCall([userId, calleeId])) {
+                socket.emit('error', {
+                    code: 'CALL_BUSY',
+                    message: 'You or the other user are already in a call'
+                });
+                return;
+            }
+
+            const call = await callService.createCall(sessionId, userId, calleeId);
+
+            // Lost a race with another call:start for one of the two users
+            if (!call) {
+                socket.emit('error', {
+                    code: 'CALL_BUSY',
+                    message: 'You or the other user are already in a call'
+                });
+                return;
+            }
+
+            const callId = call.callId;
+
+            this.ringTimers.set(callId, setTimeout(() => {
+                this.ringTimers.delete(callId);
+                callService.expire(callId)
+                    .then(expired => expired && this.emitCallUpdate(expired))
+                    .catch(error => logger.error('❌ Failed to expire call:', error));
+            }, callConfig.ringTimeoutMs));
+
+            socket.emit('call:ringing', {
+                callId,
+                sessionId,
+                calleeId,
+                rtcConfig: getWebRTCConfig(userId),
+                timestamp: Date.now()
+            });
+
+            const caller = await User.findById(userId).select('name role');
+
+            this.io.to(`user:${calleeId}`).emit('call:incoming', {
+                callId,
+                sessionId,
+                topic: session.metadata?.topic,
+                from: {
+                    userId,
+                    name: caller?.name,
+                    role: caller?.role
+                },
+                rtcConfig: getWebRTCConfig(calleeId),
+                ringTimeoutMs: callConfig.ringTimeoutMs,
+                timestamp: Date.now()
+            });
+
+        } catch (error) {
+            logger.error('❌ Error starting call:', error);
+
+            socket.emit('error', {
+                code: 'CALL_ERROR',
+                message: 'Failed to start call'
+            });
+        }
+    }
+
+    async handleAccept(socket: Socket, data: any): Promise<void> {
+        await this.transition(socket, data, 'accept', (callId, userId) => callService.accept(callId, userId));
+    }
+
+    async handleReject(socket: Socket, data: any): Promise<void> {
+        await this.transition(socket, data, 'reject', (callId, userId) => callService.reject(callId, userId));
+    }
+
+    async handleEnd(socket: Socket, data: any): Promise<void> {
+        await this.transition(socket, data, 'end', (callId, userId) => callService.end(callId, userId));
+    }
+
+    /**
+     * Relay offer / answer / ICE to the other participant of a connected call
+     */
+    async handleSignal(socket: Socket, type: string, data: any): Promise<void> {
+        try {
+            const { callId, sessionId: _sessionId, to: _to, ...payload } = data || {};
+            const userId = socket.data.user?.userId?.toString();
+
+            const call = typeof callId === 'string' ? await this.getConnectedCall(callId) : null;
+
+            if (!userId || !call || (call.callerId !== userId && call.calleeId !== userId)) {
+                socket.emit('error', {
+                    code: 'CALL_NOT_FOUND',
+                    message: 'No connected call with that ID'
+                });
+                return;
+            }
+
+            const peerId = call.callerId === userId ? call.calleeId : call.callerId;
+
+            this.io.to(`user:${peerId}`).emit(`webrtc:${type}`, {
+                callId,
+                from: userId,
+                ...payload
+            });
+
+        } catch (error) {
+            logger.error('❌ Error relaying WebRTC signal:', error);
+        }
+    }
+
+    /**
+     * The user's last connection closed: hang up whatever they were in
+     */
+    async handleUserOffline(userId: string): Promise<void> {
+        try {
+            // Still connected through another instance
+            const sockets = await this.io.in(`user:${userId}`).fetchSockets();
+            if (sockets.length > 0) {
+                return;
+            }
+
+            const calls = await callService.endActiveCallsForUser(userId, 'disconnect');
+            calls.forEach(call => this.emitCallUpdate(call));
+        } catch (error) {
+            logger.error('❌ Failed to end calls for disconnected user:', error);
+        }
+    }
+
+    private async transition(
+        socket: Socket,
+        data: any,
+        action: string,
+        apply: (callId: string, userId: string) => Promise<ICall | null>
+    ): Promise<void> {
+        try {
+            const { callId } = data || {};
+            const userId = socket.data.user?.userId?.toString();
+
+            if (!userId || typeof callId !== 'string') {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: 'Call ID is required'
+                });
+                return;
+            }
+
+            const call = await apply(callId, userId);
+
+            if (!call) {
+                socket.emit('error', {
+                    code: 'CALL_NOT_FOUND',
+                    message: `No call you can ${action} with that ID`,
+                    callId
+                });
+                return;
+            }
+
+            this.emitCallUpdate(call);
+
+        } catch (error) {
+            logger.error(`❌ Error handling call ${action}:`, error);
+
+            socket.emit('error', {
+                code: 'CALL_ERROR',
+                message: `Failed to ${action} call`
+            });
+        }
+    }
+
+    /**
+     * Tell both participants (on every device) about the call's new state
+     */
+    emitCallUpdate(call: ICall): void {
+        const { callId } = call;
+        const callerId = call.callerId.toString();
+        const calleeId = call.calleeId.toString();
+
+        if (call.status !== 'ringing') {
+            clearTimeout(this.ringTimers.get(callId));
+            this.ringTimers.delete(callId);
+        }
+
+        if (call.status === 'accepted') {
+            this.connectedCalls.set(callId, { callerId, calleeId });
+        } else {
+            this.connectedCalls.delete(callId);
+            this.redisService.publish(CALL_EVICT_CHANNEL, { callId })
+                .catch(error => logger.warn('⚠️  Failed to broadcast call eviction:', error.message));
+        }
+
+        const event = CALL_EVENTS[call.status];
+        if (!event) return;
+
+        this.io.to(`user:${callerId}`).to(`user:${calleeId}`).emit(event, {
+            callId,
+            sessionId: call.sessionId,
+            status: call.status,
+            answeredAt: call.answeredAt,
+            endedAt: call.endedAt,
+            endedBy: call.endedBy,
+            reason: call.endReason,
+            durationMs: call.durationMs,
+            timestamp: Date.now()
+        });
+
+        logger.info(`📞 Call ${callId} ${call.status}`, { reason: call.endReason, durationMs: call.durationMs });
+    }
+
+    private async getConnectedCall(callId: string): Promise<ConnectedCall | null> {
+        const cached = this.connectedCalls.get(callId);
+        if (cached) {
+            return cached;
+        }
+
+        // Accepted on another instance
+        const call = await callService.getCall(callId);
+        if (!call || call.status !== 'accepted') {
+            return null;
+        }
+
+        const connected = { callerId: call.callerId.toString(), calleeId: call.calleeId.toString() };
+        this.connectedCalls.set(callId, connected);
+
+        return connected;
+    }
+}
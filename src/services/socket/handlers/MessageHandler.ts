@@ -5,15 +5,20 @@
 import { Socket } from 'socket.io';
 import SessionService from '@/services/session/SessionService';
 import MessageQueue from '@/services/queue/MessageQueue';
+import PythonAPIClient from '@/services/external/PythonAPIClient';
+import { IMessageData } from '@/models/Message';
+import { ISession } from '@/models/Session';
 import logger from '@/config/logger';
+import config from '@/config/env';
+import { decodeAudio } from '@/utils/audio';
+import recordingService from '@/services/recordingService';
 
 export class MessageHandler {
     private sessionService: SessionService;
-    private messageQueue: MessageQueue;
+    private messageQueue: MessageQueue | null = null;
 
-    constructor() {
+    constructor(private readonly pythonClient: PythonAPIClient) {
         this.sessionService = new SessionService();
-        this.messageQueue = new MessageQueue();
     }
 
     /**
@@ -88,68 +93,91 @@ export class MessageHandler {
                 return;
             }
 
-            // Save user message to database
-            const userMessage = await this.sessionService.addMessage(
+            await this.submitUserMessage(socket, session, userId, content.trim());
+
+            logger.info(`⏭️  Message queued for LLM processing`, {
                 sessionId,
-                userId,
-                'user',
-                content.trim()
-            );
-
-            // Emit confirmation that user message was received
-            socket.emit('message:sent', {
-                messageId: userMessage._id,
-                role: 'user',
-                content: content.trim(),
-                timestamp: userMessage.createdAt,
-                sessionId
+                duration: Date.now() - startTime
             });
 
-            logger.info(`✅ User message saved: ${userMessage._id}`);
+        } catch (error) {
+            logger.error('❌ Error handling message:', error);
 
-            // Get conversation context (last 10 messages)
-            const history = await this.sessionService.getSessionHistory(sessionId, 10);
+            socket.emit('error', {
+                code: 'MESSAGE_PROCESSING_ERROR',
+                message: error instanceof Error ? error.message : 'Failed to process message'
+            });
+        }
+    }
 
-            const context = {
-                messages: history.messages.map(msg => ({
-                    role: msg.role,
-                    content: msg.content,
-                    timestamp: msg.createdAt
-                })),
-                sessionId,
-                topic: session.metadata?.topic
-            };
+    /**
+     * Regenerate an assistant reply as a new sibling version
+     */
+    async handleRegenerate(socket: Socket, data: any): Promise<void> {
+        try {
+            const { messageId } = data || {};
+            const userId = socket.data.user?.userId?.toString();
 
-            // Queue LLM processing
-            await this.messageQueue.addToLLMQueue({
-                sessionId,
-                userId,
-                messageId: userMessage._id.toString(),
-                content: content.trim(),
-                context
-            });
+            if (!userId) {
+                socket.emit('error', {
+                    code: 'UNAUTHORIZED',
+                    message: 'User not authenticated'
+                });
+                return;
+            }
 
-            logger.info(`⏭️  Message queued for LLM processing`, {
-                messageId: userMessage._id,
-                duration: Date.now() - startTime
+            if (!messageId) {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: 'Message ID is required'
+                });
+                return;
+            }
+
+            if (!this.messageQueue) {
+                throw new Error('Message queue not available');
+            }
+
+            const plan = await this.sessionService.prepareRegeneration(String(messageId), userId);
+
+            if (!plan.ok) {
+                socket.emit('error', {
+                    code: plan.code,
+                    message: plan.message
+                });
+                return;
+            }
+
+            socket.emit('message:regenerating', {
+                sessionId: plan.session.sessionId,
+                replyTo: plan.prompt._id,
+                regeneratedFrom: plan.reply._id,
+                timestamp: Date.now()
             });
 
+            await this.messageQueue.addToLLMQueue(plan.job);
+
+            logger.info(`🔁 Regeneration queued for message ${messageId}`);
+
         } catch (error) {
-            logger.error('❌ Error handling message:', error);
+            logger.error('❌ Error regenerating message:', error);
 
             socket.emit('error', {
-                code: 'MESSAGE_PROCESSING_ERROR',
-                message: error instanceof Error ? error.message : 'Failed to process message'
+                code: 'MESSAGE_REGENERATE_ERROR',
+                message: 'Failed to regenerate message'
             });
         }
     }
 
     /**
-     * Handle voice message
+     * Handle voice message: transcribe the clip, then treat the text like a typed message
      */
     async handleVoiceMessage(socket: Socket, data: any): Promise<void> {
+        const startTime = Date.now();
+
         try {
-            const { sessionId, audioData, format } = data;
+            const { sessionId, audioData, language } = data || {};
+            const format = typeof data?.format === 'string' ? data.format.toLowerCase() : '';
             const userId = socket.data.user?.userId?.toString();
 
             if (!userId) {
@@ -168,39 +196,51 @@ export class MessageHandler {
                 return;
             }
 
-            logger.info(`🎤 Handling voice message from user ${userId}`);
+            if (!config.voice.allowedFormats.includes(format)) {
+                socket.emit('error', {
+                    code: 'UNSUPPORTED_AUDIO_FORMAT',
+                    message: `Audio format must be one of: ${config.voice.allowedFormats.join(', ')}`
+                });
+                return;
+            }
 
-            const session = await this.sessionService.getSession(sessionId);
+            const audio = decodeAudio(audioData);
 
-            if (!session) {
+            if (!audio || audio.length === 0) {
                 socket.emit('error', {
-                    code: 'SESSION_NOT_FOUND',
-                    message: 'Session not found'
+                    code: 'INVALID_AUDIO',
+                    message: 'Audio must be binary data or a base64 string'
                 });
                 return;
             }
 
-            if (session.userId.toString() !== userId) {
+            if (audio.length > config.voice.maxAudioBytes) {
                 socket.emit('error', {
-                    code: 'SESSION_ACCESS_DENIED',
-                    message: 'Access denied'
+                    code: 'AUDIO_TOO_LARGE',
+                    message: `Audio exceeds maximum size (${config.voice.maxAudioBytes} bytes)`
                 });
                 return;
             }
 
-            socket.emit('voice:processing', {
-                status: 'transcribing',
-                timestamp: Date.now()
-            });
+            logger.info(`🎤 Handling voice message from user ${userId}`, { format, bytes: audio.length });
 
-            // TODO: Implement voice transcription with Python API
-            socket.emit('voice:transcribed', {
-                text: '[Voice transcription not yet implemented]',
-                confidence: 0,
-                timestamp: Date.now()
+            const session = await this.getActiveSession(socket, sessionId, userId);
+
+            if (!session) {
+                return;
+            }
+
+            const userMessage = await this.submitVoiceClip(socket, session, userId, audio, {
+                format,
+                language: typeof language === 'string' ? language : undefined
             });
 
-            logger.info(`✅ Voice message processed`);
+            if (userMessage) {
+                logger.info(`✅ Voice message transcribed and queued`, {
+                    messageId: userMessage._id,
+                    duration: Date.now() - startTime
+                });
+            }
 
         } catch (error) {
             logger.error('❌ Error handling voice message:', error);
@@ -212,6 +252,168 @@ export class MessageHandler {
         }
     }
 
+    /**
+     * Load a session the user may post to, emitting the matching error otherwise
+     */
+    async getActiveSession(socket: Socket, sessionId: string, userId: string): Promise<ISession | null> {
+        const session = await this.sessionService.getSession(sessionId);
+
+        if (!session) {
+            socket.emit('error', {
+                code: 'SESSION_NOT_FOUND',
+                message: 'Session not found'
+            });
+            return null;
+        }
+
+        if (session.userId.toString() !== userId) {
+            socket.emit('error', {
+                code: 'SESSION_ACCESS_DENIED',
+                message: 'Access denied'
+            });
+            return null;
+        }
+
+        if (session.status !== 'active') {
+            socket.emit('error', {
+                code: 'SESSION_INACTIVE',
+                message: 'Session is not active'
+            });
+            return null;
+        }
+
+        return session;
+    }
+
+    /**
+     * Transcribe a complete recording and submit the text as the user's message.
+     * Returns null when no speech was detected.
+     */
+    async submitVoiceClip(
+        socket: Socket,
+        session: ISession,
+        userId: string,
+        audio: Buffer,
+        options: { format: string; language?: string; streamId?: string; durationMs?: number }
+    ): Promise<IMessageData | null> {
+        const { sessionId } = session;
+        const { format, streamId } = options;
+
+        socket.emit('voice:processing', {
+            status: 'transcribing',
+            ...(streamId && { streamId }),
+            timestamp: Date.now()
+        });
+
+        const transcription = await this.pythonClient.transcribe({
+            audio,
+            format,
+            sessionId,
+            userId,
+            language: options.language ?? session.tutorConfig?.language
+        });
+
+        const text = transcription.text.trim().slice(0, 5000);
+
+        if (!text) {
+            socket.emit('error', {
+                code: 'TRANSCRIPTION_EMPTY',
+                message: 'No speech was detected in the recording',
+                ...(streamId && { streamId })
+            });
+            return null;
+        }
+
+        socket.emit('voice:transcribed', {
+            ...(streamId && { streamId }),
+            text,
+            confidence: transcription.confidence ?? null,
+            language: transcription.language,
+            isFinal: true,
+            timestamp: Date.now()
+        });
+
+        // Keep the recording for replay; the message still goes through if storage is down
+        let storageKey: string | undefined;
+        try {
+            storageKey = await recordingService.save(userId, sessionId, audio, format);
+        } catch (error) {
+            logger.error('❌ Failed to store voice recording:', error);
+        }
+
+        return this.submitUserMessage(socket, session, userId, text, {
+            confidence: transcription.confidence,
+            inputMode: 'voice',
+            audio: {
+                format,
+                size: audio.length,
+                durationMs: transcription.durationMs ?? options.durationMs,
+                language: transcription.language,
+                storageKey
+            }
+        });
+    }
+
+    /**
+     * Save a user message, confirm it to the sender and queue the tutor's reply
+     */
+    private async submitUserMessage(
+        socket: Socket,
+        session: ISession,
+        userId: string,
+        content: string,
+        metadata: IMessageData['metadata'] = {}
+    ): Promise<IMessageData> {
+        const { sessionId } = session;
+
+        if (!this.messageQueue) {
+            throw new Error('Message queue not available');
+        }
+
+        // Save user message to database
+        const userMessage = await this.sessionService.addMessage(
+            sessionId,
+            userId,
+            'user',
+            content,
+            metadata
+        );
+
+        // Emit confirmation that user message was received
+        socket.emit('message:sent', {
+            messageId: userMessage._id,
+            role: 'user',
+            content,
+            timestamp: userMessage.createdAt,
+            sessionId,
+            ...(metadata.inputMode && { inputMode: metadata.inputMode })
+        });
+
+        logger.info(`✅ User message saved: ${userMessage._id}`);
+
+        // Conversation context as it stood before this message (already token-budgeted)
+        const context = {
+            messages: session.contextWindow.messages.map(msg => ({
+                role: msg.role,
+                content: msg.content,
+                timestamp: msg.timestamp
+            })),
+            sessionId,
+            topic: session.metadata?.topic
+        };
+
+        // Queue LLM processing
+        await this.messageQueue.addToLLMQueue({
+            sessionId,
+            userId,
+            messageId: userMessage._id.toString(),
+            content,
+            context
+        });
+
+        return userMessage;
+    }
+
     /**
      * Set message queue instance
      */
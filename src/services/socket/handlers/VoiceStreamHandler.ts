@@ -0,0 +1,368 @@
+// src/services/socket/handlers/VoiceStreamHandler.ts
+import crypto from 'crypto';
+import { Socket } from 'socket.io';
+import PythonAPIClient from '@/services/external/PythonAPIClient';
+import { MessageHandler } from './MessageHandler';
+import logger from '@/config/logger';
+import config from '@/config/env';
+import { decodeAudio } from '@/utils/audio';
+
+interface VoiceStream {
+    streamId: string;
+    sessionId: string;
+    userId: string;
+    format: string;
+    language?: string;
+    chunks: Buffer[];
+    bytes: number;
+    startedAt: number;
+    lastPartialAt: number;
+    partialInFlight: boolean;
+    durationTimer: NodeJS.Timeout;
+    idleTimer: NodeJS.Timeout;
+}
+
+/**
+ * Live microphone input: the client sends voice:start, a series of voice:chunk
+ * events and voice:end. Audio is buffered per socket (one stream at a time),
+ * re-transcribed periodically for interim results, and the final transcript is
+ * submitted like a voice:send clip.
+ */
+export class VoiceStreamHandler {
+    private streams: Map<string, VoiceStream> = new Map();
+
+    constructor(
+        private readonly pythonClient: PythonAPIClient,
+        private readonly messageHandler: MessageHandler
+    ) {}
+
+    /**
+     * Open a stream for a session the user owns; replaces any stream already open on the socket
+     */
+    async handleStart(socket: Socket, data: any): Promise<void> {
+        try {
+            const { sessionId, language } = data || {};
+            const format = typeof data?.format === 'string' ? data.format.toLowerCase() : '';
+            const userId = socket.data.user?.userId?.toString();
+
+            if (!userId) {
+                socket.emit('error', {
+                    code: 'UNAUTHORIZED',
+                    message: 'User not authenticated'
+                });
+                return;
+            }
+
+            if (!sessionId) {
+                socket.emit('error', {
+                    code: 'INVALID_INPUT',
+                    message: 'Session ID is required'
+                });
+                return;
+            }
+
+            if (!config.voice.allowedFormats.includes(format)) {
+                socket.emit('error', {
+                    code: 'UNSUPPORTED_AUDIO_FORMAT',
+                    message: `Audio format must be one of: ${config.voice.allowedFormats.join(', ')}`
+                });
+                return;
+            }
+
+            const session = await this.messageHandler.getActiveSession(socket, sessionId, userId);
+
+            if (!session) {
+                return;
+            }
+
+            if (this.streams.has(socket.id)) {
+                logger.info(`🎙️  Replacing open voice stream on socket ${socket.id}`);
+                this.cleanup(socket.id);
+            }
+
+            const streamId = crypto.randomUUID();
+            const stream: VoiceStream = {
+                streamId,
+                sessionId,
+                userId,
+                format,
+                language: typeof language === 'string' ? language : undefined,
+                chunks: [],
+                bytes: 0,
+                startedAt: Date.now(),
+                lastPartialAt: Date.now(),
+                partialInFlight: false,
+                // Hitting the duration limit ends the recording rather than discarding it
+                durationTimer: setTimeout(() => {
+                    socket.emit('voice:stopped', { streamId, reason: 'max_duration', timestamp: Date.now() });
+                    this.finish(socket, streamId).catch(error =>
+                        logger.error('❌ Error finishing voice stream:', error)
+                    );
+                }, config.voice.maxStreamDurationMs),
+                idleTimer: this.startIdleTimer(socket, streamId)
+            };
+
+            this.streams.set(socket.id, stream);
+
+            socket.emit('voice:started', {
+                streamId,
+                sessionId,
+                limits: {
+                    maxBytes: config.voice.maxStreamBytes,
+                    maxDurationMs: config.voice.maxStreamDurationMs,
+                    idleTimeoutMs: config.voice.streamIdleTimeoutMs
+                },
+                timestamp: Date.now()
+            });
+
+            logger.info(`🎙️  Voice stream ${streamId} started by user ${userId}`, { sessionId, format });
+
+        } catch (error) {
+            logger.error('❌ Error starting voice stream:', error);
+
+            socket.emit('error', {
+                code: 'VOICE_STREAM_ERROR',
+                message: 'Failed to start voice stream'
+            });
+        }
+    }
+
+    /**
+     * Append audio to the open stream and kick off an interim transcription when one is due
+     */
+    handleChunk(socket: Socket, data: any): void {
+        const stream = this.getStream(socket, data?.streamId);
+
+        if (!stream) {
+            return;
+        }
+
+        const chunk = decodeAudio(data?.chunk);
+
+        if (!chunk) {
+            socket.emit('error', {
+                code: 'INVALID_AUDIO',
+                message: 'Audio must be binary data or a base64 string',
+                streamId: stream.streamId
+            });
+            return;
+        }
+
+        if (stream.bytes + chunk.length > config.voice.maxStreamBytes) {
+            this.cleanup(socket.id);
+            socket.emit('error', {
+                code: 'AUDIO_TOO_LARGE',
+                message: `Voice stream exceeds maximum size (${config.voice.maxStreamBytes} bytes)`,
+                streamId: stream.streamId
+            });
+            return;
+        }
+
+        // Copy: socket.io may hand us a view into a larger, reused buffer
+        stream.chunks.push(Buffer.from(chunk));
+        stream.bytes += chunk.length;
+
+        clearTimeout(stream.idleTimer);
+        stream.idleTimer = this.startIdleTimer(socket, stream.streamId);
+
+        if (!stream.partialInFlight && Date.now() - stream.lastPartialAt >= config.voice.partialIntervalMs) {
+            this.transcribePartial(socket, stream);
+        }
+    }
+
+    /**
+     * Close the stream and submit its final transcript
+     */
+    async handleEnd(socket: Socket, data: any): Promise<void> {
+        const stream = this.getStream(socket, data?.streamId);
+
+        if (!stream) {
+            return;
+        }
+
+        await this.finish(socket, stream.streamId);
+    }
+
+    /**
+     * Discard the open stream without transcribing it
+     */
+    handleCancel(socket: Socket, data: any): void {
+        const stream = this.getStream(socket, data?.streamId);
+
+        if (!stream) {
+            return;
+        }
+
+        this.cleanup(socket.id);
+
+        socket.emit('voice:stopped', {
+            streamId: stream.streamId,
+            reason: 'cancelled',
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * Drop the socket's stream and its timers (also called on disconnect)
+     */
+    cleanup(socketId: string): void {
+        const stream = this.streams.get(socketId);
+
+        if (!stream) {
+            return;
+        }
+
+        clearTimeout(stream.durationTimer);
+        clearTimeout(stream.idleTimer);
+        this.streams.delete(socketId);
+
+        logger.info(`🧹 Voice stream ${stream.streamId} released`, {
+            bytes: stream.bytes,
+            duration: Date.now() - stream.startedAt
+        });
+    }
+
+    /**
+     * Number of streams currently buffering audio
+     */
+    getActiveStreamCount(): number {
+        return this.streams.size;
+    }
+
+    private async finish(socket: Socket, streamId: string): Promise<void> {
+        const stream = this.streams.get(socket.id);
+
+        if (!stream || stream.streamId !== streamId) {
+            return;
+        }
+
+        // Take the stream out first so late chunks and pending partials are ignored
+        this.cleanup(socket.id);
+
+        try {
+            if (stream.bytes === 0) {
+                socket.emit('error', {
+                    code: 'INVALID_AUDIO',
+                    message: 'No audio was received',
+                    streamId
+                });
+                return;
+            }
+
+            // Re-read the session: it may have ended, and the context window has moved on
+            const session = await this.messageHandler.getActiveSession(socket, stream.sessionId, stream.userId);
+
+            if (!session) {
+                return;
+            }
+
+            const userMessage = await this.messageHandler.submitVoiceClip(
+                socket,
+                session,
+                stream.userId,
+                Buffer.concat(stream.chunks, stream.bytes),
+                {
+                    format: stream.format,
+                    language: stream.language,
+                    streamId,
+                    durationMs: Date.now() - stream.startedAt
+                }
+            );
+
+            if (userMessage) {
+                logger.info(`✅ Voice stream ${streamId} transcribed and queued`, {
+                    messageId: userMessage._id,
+                    bytes: stream.bytes
+                });
+            }
+
+        } catch (error) {
+            logger.error('❌ Error finishing voice stream:', error);
+
+            socket.emit('error', {
+                code: 'VOICE_PROCESSING_ERROR',
+                message: 'Failed to process voice stream',
+                streamId
+            });
+        }
+    }
+
+    /**
+     * Transcribe everything received so far. Compressed formats only carry their
+     * header in the first chunk, so the whole buffer is sent rather than the tail.
+     */
+    private transcribePartial(socket: Socket, stream: VoiceStream): void {
+        stream.partialInFlight = true;
+        stream.lastPartialAt = Date.now();
+
+        this.pythonClient.transcribe({
+            audio: Buffer.concat(stream.chunks, stream.bytes),
+            format: stream.format,
+            sessionId: stream.sessionId,
+            userId: stream.userId,
+            language: stream.language,
+            interim: true
+        })
+            .then(transcription => {
+                // The stream may have ended or been replaced while we waited
+                if (this.streams.get(socket.id) !== stream) {
+                    return;
+                }
+
+                const text = transcription.text.trim();
+
+                if (text) {
+                    socket.emit('voice:transcribed', {
+                        streamId: stream.streamId,
+                        text,
+                        confidence: transcription.confidence ?? null,
+                        language: transcription.language,
+                        isFinal: false,
+                        timestamp: Date.now()
+                    });
+                }
+            })
+            .catch(error => {
+                // Interim results are best effort; the final transcription still runs on voice:end
+                logger.warn(`⚠️  Interim transcription failed for stream ${stream.streamId}`, {
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            })
+            .finally(() => {
+                stream.partialInFlight = false;
+            });
+    }
+
+    private startIdleTimer(socket: Socket, streamId: string): NodeJS.Timeout {
+        return setTimeout(() => {
+            const stream = this.streams.get(socket.id);
+
+            if (!stream || stream.streamId !== streamId) {
+                return;
+            }
+
+            this.cleanup(socket.id);
+
+            socket.emit('error', {
+                code: 'VOICE_STREAM_TIMEOUT',
+                message: 'Voice stream closed after receiving no audio',
+                streamId
+            });
+        }, config.voice.streamIdleTimeoutMs);
+    }
+
+    private getStream(socket: Socket, streamId: unknown): VoiceStream | null {
+        const stream = this.streams.get(socket.id);
+
+        if (!stream || stream.streamId !== streamId) {
+            socket.emit('error', {
+                code: 'VOICE_STREAM_NOT_FOUND',
+                message: 'No open voice stream with that ID',
+                ...(typeof streamId === 'string' && { streamId })
+            });
+            return null;
+        }
+
+        return stream;
+    }
+}
@@ -0,0 +1,68 @@
+// src/services/speechService.ts
+import fs from 'fs';
+import path from 'path';
+import config from '@/config/env';
+import logger from '@/config/logger';
+import { IMessageSpeech } from '@/models/Message';
+
+/**
+ * Stores synthesised replies on disk, one directory per user so a whole
+ * account's audio can be removed at once.
+ */
+class SpeechService {
+    private readonly directory = path.resolve(config.voice.speechDirectory);
+
+    /**
+     * Write the audio for a message; returns the metadata to record on it
+     */
+    async store(
+        userId: string,
+        messageId: string,
+        audio: Buffer,
+        format: string,
+        durationMs?: number
+    ): Promise<IMessageSpeech> {
+        const fileName = `${messageId}.${format.replace(/[^a-z0-9]/gi, '') || 'bin'}`;
+        const userDirectory = this.getUserDirectory(userId);
+
+        await fs.promises.mkdir(userDirectory, { recursive: true });
+        await fs.promises.writeFile(path.join(userDirectory, fileName), audio);
+
+        return { format, size: audio.length, durationMs, fileName };
+    }
+
+    /**
+     * Absolute path of a message's audio, or null if the file is gone
+     */
+    async resolve(userId: string, speech: IMessageSpeech): Promise<string | null> {
+        const filePath = path.join(this.getUserDirectory(userId), path.basename(speech.fileName));
+
+        try {
+            await fs.promises.access(filePath, fs.constants.R_OK);
+            return filePath;
+        } catch {
+            return null;
+        }
+    }
+
+    async remove(userId: string, speech: IMessageSpeech): Promise<void> {
+        try {
+            await fs.promises.rm(
+                path.join(this.getUserDirectory(userId), path.basename(speech.fileName)),
+                { force: true }
+            );
+        } catch (error) {
+            logger.error('Failed to remove speech file:', error);
+        }
+    }
+
+    async removeUserSpeech(userId: string): Promise<void> {
+        await fs.promises.rm(this.getUserDirectory(userId), { recursive: true, force: true });
+    }
+
+    private getUserDirectory(userId: string): string {
+        return path.join(this.directory, path.basename(userId));
+    }
+}
+
+export default new SpeechService();
@@ -0,0 +1,91 @@
+// src/services/storage/LocalStorageDriver.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SignedUrlOptions, StorageDriver } from './StorageDriver';
+
+/**
+ * Stores objects under a directory on this server. Signed URLs point at
+ * GET /api/media, which checks the HMAC and expiry before serving the file.
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local';
+    private readonly directory: string;
+
+    constructor(
+        directory: string,
+        private readonly signingSecret: string,
+        private readonly publicUrl: string
+    ) {
+        this.directory = path.resolve(directory);
+    }
+
+    async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+        const filePath = this.resolvePath(key);
+
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, body);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolvePath(key), { force: true });
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        await fs.promises.rm(this.resolvePath(prefix), { recursive: true, force: true });
+    }
+
+    async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+        const expires = Math.floor(Date.now() / 1000) + options.expiresInSeconds;
+        const query = new URLSearchParams({
+            key,
+            expires: String(expires),
+            signature: this.sign(key, expires)
+        });
+
+        return `${this.publicUrl}/api/media?${query.toString()}`;
+    }
+
+    /**
+     * Check a signed URL's parameters; returns the file path when valid
+     */
+    verifySignedRequest(key: unknown, expires: unknown, signature: unknown): string | null {
+        if (typeof key !== 'string' || typeof expires !== 'string' || typeof signature !== 'string') {
+            return null;
+        }
+
+        const expiresAt = parseInt(expires, 10);
+        if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.sign(key, expiresAt));
+        const provided = Buffer.from(signature);
+        if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+            return null;
+        }
+
+        try {
+            return this.resolvePath(key);
+        } catch {
+            return null;
+        }
+    }
+
+    private sign(key: string, expires: number): string {
+        return crypto
+            .createHmac('sha256', this.signingSecret)
+            .update(`media:${key}:${expires}`)
+            .digest('hex');
+    }
+
+    private resolvePath(key: string): string {
+        const filePath = path.resolve(this.directory, key);
+
+        if (!filePath.startsWith(this.directory + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+
+        return filePath;
+    }
+}
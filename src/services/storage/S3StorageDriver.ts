@@ -0,0 +1,209 @@
+// src/services/storage/S3StorageDriver.ts
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import { SignedUrlOptions, StorageDriver } from './StorageDriver';
+
+export interface S3StorageOptions {
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle: boolean;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256 = (data: string | Buffer): string =>
+    crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer =>
+    crypto.createHmac('sha256', key).update(data).digest();
+
+// S3 expects RFC 3986 encoding, which is stricter than encodeURIComponent
+const encodeRfc3986 = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const decodeXml = (value: string): string =>
+    value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+
+/**
+ * S3-compatible object storage (AWS, MinIO, ...). Requests are signed with
+ * Signature Version 4 directly, so no SDK is needed.
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3';
+    private readonly endpoint: URL;
+    private readonly client: AxiosInstance;
+
+    constructor(private readonly options: S3StorageOptions) {
+        this.endpoint = new URL(options.endpoint || `https://s3.${options.region}.amazonaws.com`);
+        this.client = axios.create({ timeout: 30000, maxBodyLength: Infinity });
+    }
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+        await this.request('PUT', this.objectUrl(key), {
+            body,
+            headers: { 'content-type': contentType }
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.request('DELETE', this.objectUrl(key));
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        let continuationToken: string | undefined;
+
+        do {
+            const url = this.bucketUrl();
+            url.searchParams.set('list-type', '2');
+            url.searchParams.set('prefix', prefix);
+            if (continuationToken) {
+                url.searchParams.set('continuation-token', continuationToken);
+            }
+
+            const xml = (await this.request('GET', url)).toString('utf8');
+            const keys = [...xml.matchAll(/<Key>([^<]*)<\/Key>/g)].map(match => decodeXml(match[1]));
+
+            for (const key of keys) {
+                await this.delete(key);
+            }
+
+            const next = /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(xml);
+            continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml) && next
+                ? decodeXml(next[1])
+                : undefined;
+        } while (continuationToken);
+    }
+
+    async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+        return this.presign(this.objectUrl(key), options, new Date());
+    }
+
+    /**
+     * Query-string signed GET (a "presigned URL")
+     */
+    presign(url: URL, options: SignedUrlOptions, now: Date): string {
+        const { amzDate, scope } = this.credentialScope(now);
+
+        url.searchParams.set('X-Amz-Algorithm', ALGORITHM);
+        url.searchParams.set('X-Amz-Credential', `${this.options.accessKeyId}/${scope}`);
+        url.searchParams.set('X-Amz-Date', amzDate);
+        url.searchParams.set('X-Amz-Expires', String(options.expiresInSeconds));
+        url.searchParams.set('X-Amz-SignedHeaders', 'host');
+        if (options.contentType) {
+            url.searchParams.set('response-content-type', options.contentType);
+        }
+
+        const signature = this.signature('GET', url, { host: url.host }, UNSIGNED_PAYLOAD, now);
+
+        return `${url.origin}${url.pathname}?${this.canonicalQuery(url)}&X-Amz-Signature=${signature}`;
+    }
+
+    private async request(
+        method: 'GET' | 'PUT' | 'DELETE',
+        url: URL,
+        options: { body?: Buffer; headers?: Record<string, string> } = {}
+    ): Promise<Buffer> {
+        const now = new Date();
+        const { amzDate, scope } = this.credentialScope(now);
+        const payloadHash = sha256(options.body ?? '');
+        const headers: Record<string, string> = {
+            ...options.headers,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+        const signed = { ...headers, host: url.host };
+
+        const signature = this.signature(method, url, signed, payloadHash, now);
+
+        const response = await this.client.request<ArrayBuffer>({
+            method,
+            url: `${url.origin}${url.pathname}${url.search ? `?${this.canonicalQuery(url)}` : ''}`,
+            data: options.body,
+            headers: {
+                ...headers,
+                Authorization:
+                    `${ALGORITHM} Credential=${this.options.accessKeyId}/${scope}, ` +
+                    `SignedHeaders=${this.signedHeaderNames(signed)}, Signature=${signature}`
+            },
+            responseType: 'arraybuffer'
+        });
+
+        return Buffer.from(response.data);
+    }
+
+    private signature(
+        method: string,
+        url: URL,
+        headers: Record<string, string>,
+        payloadHash: string,
+        now: Date
+    ): string {
+        const { amzDate, dateStamp, scope } = this.credentialScope(now);
+
+        const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+        const lowerCased = Object.fromEntries(
+            Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+        );
+
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            this.canonicalQuery(url),
+            names.map(name => `${name}:${lowerCased[name]}\n`).join(''),
+            names.join(';'),
+            payloadHash
+        ].join('\n');
+
+        const stringToSign = [ALGORITHM, amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+        const signingKey = hmac(
+            hmac(hmac(hmac(`AWS4${this.options.secretAccessKey}`, dateStamp), this.options.region), 's3'),
+            'aws4_request'
+        );
+
+        return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    }
+
+    private signedHeaderNames(headers: Record<string, string>): string {
+        return Object.keys(headers).map(name => name.toLowerCase()).sort().join(';');
+    }
+
+    private canonicalQuery(url: URL): string {
+        return [...url.searchParams.entries()]
+            .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+            .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+            .map(([name, value]) => `${name}=${value}`)
+            .join('&');
+    }
+
+    private credentialScope(now: Date): { amzDate: string; dateStamp: string; scope: string } {
+        const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+
+        return { amzDate, dateStamp, scope: `${dateStamp}/${this.options.region}/s3/aws4_request` };
+    }
+
+    private bucketUrl(): URL {
+        const base = this.endpoint.pathname.replace(/\/$/, '');
+
+        return this.options.forcePathStyle
+            ? new URL(`${this.endpoint.origin}${base}/${this.options.bucket}`)
+            : new URL(`${this.endpoint.protocol}//${this.options.bucket}.${this.endpoint.host}${base}/`);
+    }
+
+    private objectUrl(key: string): URL {
+        const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+        const bucket = this.bucketUrl();
+
+        return new URL(`${bucket.origin}${bucket.pathname.replace(/\/$/, '')}/${encodedKey}`);
+    }
+}
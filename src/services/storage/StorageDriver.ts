@@ -0,0 +1,21 @@
+// src/services/storage/StorageDriver.ts
+
+export interface SignedUrlOptions {
+    expiresInSeconds: number;
+    // Content-Type the client should see when fetching the object
+    contentType?: string;
+}
+
+/**
+ * Object storage for user media. Keys are '/'-separated paths such as
+ * `recordings/<userId>/<sessionId>/<id>.webm`.
+ */
+export interface StorageDriver {
+    readonly name: string;
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    // Remove every object whose key starts with the prefix
+    deletePrefix(prefix: string): Promise<void>;
+    // Time-limited URL that can be fetched without further authentication
+    getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
@@ -0,0 +1,19 @@
+// src/services/storage/index.ts
+import config from '@/config/env';
+import { StorageDriver } from './StorageDriver';
+import { LocalStorageDriver } from './LocalStorageDriver';
+import { S3StorageDriver } from './S3StorageDriver';
+
+export type { StorageDriver, SignedUrlOptions } from './StorageDriver';
+export { LocalStorageDriver } from './LocalStorageDriver';
+export { S3StorageDriver } from './S3StorageDriver';
+
+const createStorageDriver = (): StorageDriver => {
+    if (config.storage.driver === 's3') {
+        return new S3StorageDriver(config.storage.s3);
+    }
+
+    return new LocalStorageDriver(config.storage.localDirectory, config.storage.signingSecret, config.apiUrl);
+};
+
+export default createStorageDriver();
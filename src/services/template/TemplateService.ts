@@ -0,0 +1,118 @@
+import mongoose from 'mongoose';
+import logger from '@/config/logger';
+import TutorTemplate, { ITutorTemplate } from '@/models/TutorTemplate';
+import { ITutorConfig } from '@/models/Session';
+import { UserRole } from '@/types';
+import { Permission, hasPermission } from '@/config/permissions';
+
+export type TutorTemplateInput = Pick<
+    ITutorTemplate,
+    'name' | 'subject' | 'systemPrompt'
+> & Partial<Pick<
+    ITutorTemplate,
+    'description' | 'gradeLevel' | 'teachingStyle' | 'language' | 'starterQuestions' | 'allowedTools' | 'isPublished'
+>>;
+
+export default class TemplateService {
+    async createTemplate(userId: string, input: TutorTemplateInput): Promise<ITutorTemplate> {
+        const template = await TutorTemplate.create({
+            ...input,
+            createdBy: new mongoose.Types.ObjectId(userId)
+        });
+
+        logger.info(`Tutor template created: ${template._id} by user: ${userId}`);
+        return template;
+    }
+
+    async getTemplate(templateId: string): Promise<ITutorTemplate | null> {
+        if (!mongoose.Types.ObjectId.isValid(templateId)) {
+            return null;
+        }
+        return TutorTemplate.findById(templateId);
+    }
+
+    /**
+     * List templates visible to a user: those who can manage any template
+     * see everything, everyone else sees their own plus published ones
+     */
+    async listTemplates(
+        userId: string,
+        role: UserRole,
+        filters: { subject?: string; mine?: boolean; page?: number; limit?: number } = {}
+    ): Promise<{ templates: ITutorTemplate[]; total: number }> {
+        const query: Record<string, any> = {};
+
+        if (filters.mine) {
+            query.createdBy = userId;
+        } else if (!hasPermission(role, Permission.TEMPLATE_MANAGE_ANY)) {
+            query.$or = [{ createdBy: userId }, { isPublished: true }];
+        }
+
+        if (filters.subject) {
+            query.subject = filters.subject;
+        }
+
+        const page = Math.max(1, filters.page || 1);
+        const limit = Math.min(100, Math.max(1, filters.limit || 20));
+
+        const [templates, total] = await Promise.all([
+            TutorTemplate.find(query)
+                .sort({ updatedAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            TutorTemplate.countDocuments(query)
+        ]);
+
+        return { templates, total };
+    }
+
+    async updateTemplate(
+        template: ITutorTemplate,
+        input: Partial<TutorTemplateInput>
+    ): Promise<ITutorTemplate> {
+        for (const [key, value] of Object.entries(input)) {
+            if (value !== undefined) {
+                template.set(key, value);
+            }
+        }
+
+        await template.save();
+
+        logger.info(`Tutor template updated: ${template._id}`);
+        return template;
+    }
+
+    async deleteTemplate(template: ITutorTemplate): Promise<void> {
+        await template.deleteOne();
+        logger.info(`Tutor template deleted: ${template._id}`);
+    }
+
+    /**
+     * Only the author, or a role allowed to manage any template, may change it
+     */
+    canManage(template: ITutorTemplate, userId: string, role: UserRole): boolean {
+        return hasPermission(role, Permission.TEMPLATE_MANAGE_ANY) ||
+            template.createdBy.toString() === userId;
+    }
+
+    /**
+     * Unpublished templates are only usable by their author
+     */
+    canUse(template: ITutorTemplate, userId: string): boolean {
+        return template.isPublished || template.createdBy.toString() === userId;
+    }
+
+    /**
+     * Build a session's tutor configuration from a template
+     */
+    buildTutorConfig(template: ITutorTemplate): Partial<ITutorConfig> {
+        return {
+            subject: template.subject,
+            gradeLevel: template.gradeLevel,
+            teachingStyle: template.teachingStyle,
+            language: template.language,
+            systemPrompt: template.systemPrompt,
+            allowedTools: [...template.allowedTools]
+        };
+    }
+}
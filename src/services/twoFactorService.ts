@@ -0,0 +1,165 @@
+// src/services/twoFactorService.ts
+import config from '@/config/env';
+import logger from '@/config/logger';
+import User, { IUserDocument } from '@/models/User';
+import jwtService from '@/services/jwtService';
+import totp from '@/utils/totp';
+import { TwoFactorChallengePurpose, UserRole } from '@/types';
+
+const SECRET_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+export interface TwoFactorChallenge {
+    twoFactorRequired: true;
+    setupRequired: boolean;
+    challengeToken: string;
+}
+
+class TwoFactorService {
+    isRequiredFor(role: UserRole): boolean {
+        return config.twoFactor.requiredRoles.includes(role);
+    }
+
+    /**
+     * Decide whether a user who passed the first factor still owes a second one.
+     * Users who must use 2FA but never enrolled get an enrolment challenge instead.
+     */
+    getLoginChallenge(user: IUserDocument): TwoFactorChallenge | null {
+        let purpose: TwoFactorChallengePurpose;
+
+        if (user.twoFactorEnabled) {
+            purpose = '2fa_verify';
+        } else if (this.isRequiredFor(user.role)) {
+            purpose = '2fa_enroll';
+        } else {
+            return null;
+        }
+
+        return {
+            twoFactorRequired: true,
+            setupRequired: purpose === '2fa_enroll',
+            challengeToken: jwtService.generateTwoFactorChallenge(String(user._id), purpose),
+        };
+    }
+
+    /**
+     * Issue a new secret for the user to scan; it only takes effect once confirmed
+     */
+    async beginSetup(user: IUserDocument): Promise<{ secret: string; otpauthUrl: string }> {
+        const secret = totp.generateSecret();
+
+        await User.updateOne(
+            { _id: user._id },
+            { twoFactorPendingSecret: totp.encryptSecret(secret) }
+        );
+
+        return { secret, otpauthUrl: totp.getOtpAuthUrl(secret, user.email) };
+    }
+
+    /**
+     * Confirm the pending secret with a code from the authenticator app.
+     * Returns the plain recovery codes (shown once), or null if the code is wrong.
+     */
+    async enable(userId: string, code: string): Promise<string[] | null> {
+        const user = await User.findById(userId).select(SECRET_FIELDS);
+        if (!user?.twoFactorPendingSecret) {
+            return null;
+        }
+
+        const secret = totp.decryptSecret(user.twoFactorPendingSecret);
+        const step = totp.verify(secret, code);
+        if (step === null) {
+            return null;
+        }
+
+        const recoveryCodes = totp.generateRecoveryCodes();
+
+        user.twoFactorEnabled = true;
+        user.twoFactorSecret = user.twoFactorPendingSecret;
+        user.twoFactorPendingSecret = undefined;
+        user.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode => totp.hashRecoveryCode(recoveryCode));
+        user.twoFactorLastUsedStep = step;
+        await user.save();
+
+        logger.info(`Two-factor authentication enabled for user: ${userId}`);
+        return recoveryCodes;
+    }
+
+    /**
+     * Accept either a current TOTP code or an unused recovery code.
+     * Each code works only once.
+     */
+    async verifyCode(userId: string, code: string): Promise<boolean> {
+        const user = await User.findById(userId).select(SECRET_FIELDS);
+        if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+            return false;
+        }
+
+        const step = totp.verify(totp.decryptSecret(user.twoFactorSecret), code);
+
+        if (step !== null) {
+            const result = await User.updateOne(
+                {
+                    _id: user._id,
+                    $or: [
+                        { twoFactorLastUsedStep: { $exists: false } },
+                        { twoFactorLastUsedStep: { $lt: step } },
+                    ],
+                },
+                { twoFactorLastUsedStep: step }
+            );
+            return result.modifiedCount === 1;
+        }
+
+        const hash = totp.hashRecoveryCode(code);
+        const result = await User.updateOne(
+            { _id: user._id, twoFactorRecoveryCodes: hash },
+            { $pull: { twoFactorRecoveryCodes: hash } }
+        );
+
+        if (result.modifiedCount === 1) {
+            logger.warn(`Recovery code used for user: ${userId}`);
+            return true;
+        }
+
+        return false;
+    }
+
+    async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+        const recoveryCodes = totp.generateRecoveryCodes();
+
+        await User.updateOne(
+            { _id: userId },
+            { twoFactorRecoveryCodes: recoveryCodes.map(code => totp.hashRecoveryCode(code)) }
+        );
+
+        return recoveryCodes;
+    }
+
+    async getStatus(userId: string): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+        const user = await User.findById(userId).select('+twoFactorRecoveryCodes');
+
+        return {
+            enabled: !!user?.twoFactorEnabled,
+            recoveryCodesRemaining: user?.twoFactorRecoveryCodes?.length || 0,
+        };
+    }
+
+    async disable(userId: string): Promise<void> {
+        await User.updateOne(
+            { _id: userId },
+            {
+                twoFactorEnabled: false,
+                $unset: {
+                    twoFactorSecret: 1,
+                    twoFactorPendingSecret: 1,
+                    twoFactorRecoveryCodes: 1,
+                    twoFactorLastUsedStep: 1,
+                },
+            }
+        );
+
+        logger.info(`Two-factor authentication disabled for user: ${userId}`);
+    }
+}
+
+export default new TwoFactorService();
@@ -1,5 +1,6 @@
 import { IJWTPayload } from './index';
 import 'express-serve-static-core';
+import 'express-session';
 
 declare module 'express-serve-static-core' {
     interface Request {
@@ -11,4 +12,11 @@ declare module 'express-serve-static-core' {
             resetTime: Date | undefined;
         };
     }
-}
\ No newline at end of file
+}
+
+declare module 'express-session' {
+    interface SessionData {
+        // Set while an OAuth redirect is linking a provider to a signed-in account
+        oauthLinkToken?: string;
+    }
+}
@@ -12,15 +12,32 @@ export interface IUser {
     email: string;
     name: string;
     password?: string;
+    // Legacy single Google link, superseded by identities
     googleId?: string;
+    identities: IUserIdentity[];
     role: UserRole;
     isActive?: boolean;
+    deactivatedAt?: Date;
+    deactivationReason?: string;
+    // Set while a self-service deletion is in its grace period
+    deletionRequestedAt?: Date;
+    deletionScheduledFor?: Date;
     isEmailVerified: boolean;
     verificationToken?: string;
     verificationExpires?: Date;
     passwordResetToken?: string;
     passwordResetExpires?: Date;
     profileImage?: string;
+    twoFactorEnabled: boolean;
+    twoFactorSecret?: string;
+    twoFactorPendingSecret?: string;
+    twoFactorRecoveryCodes?: string[];
+    twoFactorLastUsedStep?: number;
+    magicLinkTokenHash?: string;
+    magicLinkExpires?: Date;
+    loginOtpHash?: string;
+    loginOtpExpires?: Date;
+    loginOtpAttempts?: number;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -31,15 +48,35 @@ export interface IRefreshToken {
     token: string;
     deviceInfo: string;
     ipAddress: string;
+    // Identifies the token family: stays the same across rotations, so a device
+    // can be listed and revoked as one session. Missing on tokens issued before device tracking.
+    deviceId?: string;
+    location?: string;
+    lastUsedAt: Date;
     expiresAt: Date;
     createdAt: Date;
     isRevoked: boolean;
+    revokedAt?: Date;
 }
 
 export interface IJWTPayload extends JwtPayload {
     userId: string;
     email: string;
     role: UserRole;
+    deviceId?: string;
+}
+
+export type TwoFactorChallengePurpose = '2fa_verify' | '2fa_enroll';
+
+export interface ITwoFactorChallengePayload extends JwtPayload {
+    userId: string;
+    purpose: TwoFactorChallengePurpose;
+}
+
+export interface IAccountLinkPayload extends JwtPayload {
+    userId: string;
+    provider: string;
+    purpose: 'account_link';
 }
 
 export interface AuthRequest extends Request {
@@ -63,13 +100,24 @@ export interface SignupCredentials {
     role?: UserRole;
 }
 
-export interface GoogleProfile {
+// Profile returned by any OAuth/OIDC provider, normalised to one shape
+export interface OAuthProfile {
+    provider: string;
     id: string;
-    email: string;
+    email?: string;
+    // Only a verified email may be used to attach the identity to an existing account
+    emailVerified: boolean;
     name: string;
     picture?: string;
 }
 
+export interface IUserIdentity {
+    provider: string;
+    providerId: string;
+    email?: string;
+    linkedAt: Date;
+}
+
 export interface ApiResponse<T = any> {
     success: boolean;
     message: string;
@@ -0,0 +1,38 @@
+const MIME_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    ogg: 'audio/ogg',
+    opus: 'audio/ogg',
+    wav: 'audio/wav',
+    webm: 'audio/webm',
+    m4a: 'audio/mp4',
+    aac: 'audio/aac',
+};
+
+export const audioMimeType = (format: string): string => {
+    return MIME_TYPES[format.toLowerCase()] || 'application/octet-stream';
+};
+
+// Socket.IO delivers binary payloads as Buffers; browsers may also send base64 or data URLs
+export const decodeAudio = (audioData: unknown): Buffer | null => {
+    if (Buffer.isBuffer(audioData)) {
+        return audioData;
+    }
+
+    if (audioData instanceof ArrayBuffer) {
+        return Buffer.from(audioData);
+    }
+
+    if (ArrayBuffer.isView(audioData)) {
+        return Buffer.from(audioData.buffer, audioData.byteOffset, audioData.byteLength);
+    }
+
+    if (typeof audioData === 'string') {
+        const base64 = audioData.replace(/^data:[^;]+;base64,/, '');
+        if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+            return null;
+        }
+        return Buffer.from(base64, 'base64');
+    }
+
+    return null;
+};
@@ -0,0 +1,89 @@
+import { Request } from 'express';
+
+export interface ParsedUserAgent {
+    browser: string;
+    os: string;
+    device: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+// Order matters: Edge and Opera also identify as Chrome, Chrome also identifies as Safari
+const BROWSERS: Array<[RegExp, string]> = [
+    [/Edg(?:e|A|iOS)?\/([\d.]+)/, 'Edge'],
+    [/(?:OPR|Opera)\/([\d.]+)/, 'Opera'],
+    [/SamsungBrowser\/([\d.]+)/, 'Samsung Internet'],
+    [/(?:Chrome|CriOS)\/([\d.]+)/, 'Chrome'],
+    [/(?:Firefox|FxiOS)\/([\d.]+)/, 'Firefox'],
+    [/Version\/([\d.]+).*Safari/, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+    [/Windows NT/, 'Windows'],
+    [/CrOS/, 'ChromeOS'],
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Mac OS X/, 'macOS'],
+    [/Linux/, 'Linux'],
+];
+
+export const parseUserAgent = (userAgent?: string): ParsedUserAgent => {
+    if (!userAgent) {
+        return { browser: 'Unknown', os: 'Unknown', device: 'unknown' };
+    }
+
+    let browser = 'Unknown';
+    for (const [pattern, name] of BROWSERS) {
+        const match = userAgent.match(pattern);
+        if (match) {
+            browser = `${name} ${match[1].split('.')[0]}`;
+            break;
+        }
+    }
+
+    const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown';
+
+    let device: ParsedUserAgent['device'] = 'desktop';
+    if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+        device = 'tablet';
+    } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+        device = 'mobile';
+    }
+
+    return { browser, os, device };
+};
+
+const firstHeader = (req: Request, names: string[]): string | undefined => {
+    for (const name of names) {
+        const value = req.headers[name];
+        const text = Array.isArray(value) ? value[0] : value;
+        if (text && text !== 'XX') {
+            try {
+                return decodeURIComponent(text);
+            } catch {
+                return text;
+            }
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Approximate location from the geo headers set by common CDNs and proxies.
+ * We don't do our own IP lookups, so this is empty when no such header is present.
+ */
+export const getClientLocation = (req: Request): string | undefined => {
+    const city = firstHeader(req, [
+        'cf-ipcity',
+        'x-vercel-ip-city',
+        'cloudfront-viewer-city',
+        'x-appengine-city',
+    ]);
+    const country = firstHeader(req, [
+        'cf-ipcountry',
+        'x-vercel-ip-country',
+        'cloudfront-viewer-country',
+        'x-appengine-country',
+    ]);
+
+    const location = [city, country].filter(Boolean).join(', ');
+    return location || undefined;
+};
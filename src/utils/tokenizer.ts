@@ -0,0 +1,73 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+export interface ContextMessage {
+    role: 'user' | 'assistant' | 'system';
+    content: string;
+    timestamp?: Date;
+}
+
+// Tokens spent on role markers and separators for every chat message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+class Tokenizer {
+    private encoding: Tiktoken | null = null;
+
+    private getEncoding(): Tiktoken {
+        // Loading the BPE ranks is expensive, so do it on first use
+        if (!this.encoding) {
+            this.encoding = getEncoding('cl100k_base');
+        }
+        return this.encoding;
+    }
+
+    countTokens(text: string): number {
+        if (!text) return 0;
+        return this.getEncoding().encode(text, [], []).length;
+    }
+
+    countMessageTokens(messages: ContextMessage[]): number {
+        return messages.reduce(
+            (sum, message) => sum + this.countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+            0
+        );
+    }
+
+    /**
+     * Trim a context window to a token budget.
+     * System messages are always kept and the oldest turns are dropped first.
+     * The newest message is never dropped.
+     */
+    fitToBudget<T extends ContextMessage>(
+        messages: T[],
+        maxTokens: number
+    ): { messages: T[]; dropped: T[]; tokens: number } {
+        const costs = messages.map(message => this.countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS);
+        let tokens = costs.reduce((sum, cost) => sum + cost, 0);
+
+        const keep = messages.map(() => true);
+        const lastIndex = messages.length - 1;
+
+        for (let i = 0; i < lastIndex && tokens > maxTokens; i++) {
+            if (messages[i].role === 'system') continue;
+
+            keep[i] = false;
+            tokens -= costs[i];
+        }
+
+        // Don't start the window with an assistant reply whose question was dropped
+        const firstTurn = keep.findIndex((kept, i) => kept && messages[i].role !== 'system');
+        if (firstTurn > 0 && firstTurn < lastIndex && !keep[firstTurn - 1] &&
+            messages[firstTurn].role === 'assistant') {
+            keep[firstTurn] = false;
+            tokens -= costs[firstTurn];
+        }
+
+        return {
+            messages: messages.filter((_, i) => keep[i]),
+            dropped: messages.filter((_, i) => !keep[i]),
+            tokens
+        };
+    }
+}
+
+export default new Tokenizer();
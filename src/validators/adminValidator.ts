@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { roleSchema } from './authValidator';
+import { AuditAction } from '@/models/AuditLog';
+
+export const objectIdSchema = z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+export const userIdParamsSchema = z.object({
+    userId: objectIdSchema,
+});
+
+export const listUsersQuerySchema = z.object({
+    search: z.string().trim().max(100).optional(),
+    role: roleSchema.optional(),
+    isActive: z.enum(['true', 'false']).optional(),
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+    role: roleSchema,
+});
+
+export const deactivateUserSchema = z.object({
+    reason: z.string().trim().max(500).optional(),
+});
+
+const dateQuerySchema = z
+    .string()
+    .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+export const listAuditLogsQuerySchema = z.object({
+    actorId: objectIdSchema.optional(),
+    targetUserId: objectIdSchema.optional(),
+    action: z.nativeEnum(AuditAction).optional(),
+    outcome: z.enum(['success', 'failure']).optional(),
+    from: dateQuerySchema.optional(),
+    to: dateQuerySchema.optional(),
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+});
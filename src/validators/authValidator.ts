@@ -77,6 +77,59 @@ export const changePasswordSchema = z.object({
     path: ['newPassword'],
 });
 
+// Passwordless login
+export const magicLinkVerifySchema = z.object({
+    token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid sign-in link'),
+});
+
+export const loginCodeVerifySchema = z.object({
+    email: emailSchema,
+    code: z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+// Two-factor authentication
+const twoFactorCodeField = z
+    .string()
+    .trim()
+    .min(6, 'Code must be at least 6 characters')
+    .max(20, 'Code is too long');
+
+export const twoFactorSetupSchema = z.object({
+    challengeToken: z.string().min(1).optional(),
+});
+
+export const twoFactorEnableSchema = z.object({
+    code: z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits'),
+    challengeToken: z.string().min(1).optional(),
+});
+
+export const twoFactorVerifySchema = z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: twoFactorCodeField,
+});
+
+export const twoFactorCodeSchema = z.object({
+    code: twoFactorCodeField,
+});
+
+// Re-confirming identity before a sensitive account change (linking, deletion)
+export const credentialConfirmationSchema = z.object({
+    password: z.string().min(1).optional(),
+    code: twoFactorCodeField.optional(),
+}).refine((data) => data.password || data.code, {
+    message: 'Confirm with your password or a verification code',
+    path: ['password'],
+});
+
+// Personal data export download link
+export const dataExportDownloadParamsSchema = z.object({
+    exportId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid export ID'),
+});
+
+export const dataExportDownloadQuerySchema = z.object({
+    token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid download link'),
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type SignupInput = z.infer<typeof signupSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const listCallsQuerySchema = z.object({
+    sessionId: z.string().trim().min(1).max(100).optional(),
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+});
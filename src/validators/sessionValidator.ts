@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Shared by the REST routes and the socket session:create event
+export const tutorConfigSchema = z.object({
+    subject: z.string().trim().max(100).optional(),
+    gradeLevel: z.string().trim().max(50).optional(),
+    teachingStyle: z.enum(['socratic', 'direct']).optional(),
+    language: z.string().trim().min(2).max(35).optional(),
+    systemPrompt: z.string().trim().max(4000).optional(),
+    voiceMode: z.boolean().optional()
+});